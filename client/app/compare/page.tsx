@@ -0,0 +1,17 @@
+import type { Metadata } from 'next'
+import { Suspense } from 'react'
+import { RegionComparisonView } from "@/components/region-comparison"
+
+export const metadata: Metadata = {
+  title: 'Compare Regions | Global Internet Speeds',
+  description: 'Compare internet speeds of two to five regions side by side',
+}
+
+// The view reads the selected regions from the URL, which needs a Suspense boundary
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <RegionComparisonView />
+    </Suspense>
+  );
+}
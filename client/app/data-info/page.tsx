@@ -0,0 +1,173 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Coverage, DatasetMetadata, formatPeriod } from "@/lib/api"
+import { fetchServerJSON } from "@/lib/server-api"
+
+export const metadata: Metadata = {
+  title: 'About the Data | Global Internet Speeds',
+  description: 'Where our internet speed data comes from, what it covers and how it is processed',
+}
+
+// Rendered per request so the page always describes the dataset the server has loaded
+export const dynamic = 'force-dynamic'
+
+const formatCoverage = (coverage: Coverage) =>
+  coverage.tiles === 0 ? '–' : `${coverage.tiles.toLocaleString()} tiles, ${coverage.tests.toLocaleString()} tests`
+
+export default async function DataInfoPage() {
+  const data = await fetchServerJSON<DatasetMetadata>('/metadata')
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold">About the Data</h1>
+          <Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Back to rankings</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Methodology</CardTitle>
+            <CardDescription>How speeds are collected and processed</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p>
+              Speeds come from Ookla&apos;s open performance dataset, which aggregates Speedtest results by quarter into
+              map tiles of roughly 610 by 610 metres at the equator, identified by quadkey. Each tile reports the average
+              download and upload speed, average latency and the number of tests and devices behind them.
+            </p>
+            <p>
+              Averages for countries, regions and larger areas are weighted by test count, so a tile with many tests
+              counts for more than one with a handful. Rows with missing or invalid numbers, negative speeds, latencies
+              outside 0–{data ? data.validation.maxLatencyMs.toLocaleString() : '…'} ms, malformed tile polygons or
+              duplicate quadkeys within a quarter are rejected when the data is loaded.
+            </p>
+            <p>
+              The server reloads the data automatically when the source files change and pushes each reload to open
+              dashboards over a live connection, so they refresh as soon as new data is served. If that connection
+              drops, the dashboard checks for new data periodically until it reconnects.
+            </p>
+          </CardContent>
+        </Card>
+
+        {!data ? (
+          <p className="text-red-500 dark:text-red-400">Dataset details are unavailable right now.</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Loaded Dataset</CardTitle>
+                <CardDescription>
+                  {data.loadedAt
+                    ? `Loaded ${new Date(data.loadedAt).toLocaleString('en-US')} from ${data.dataSource}`
+                    : `Not loaded yet (${data.status})`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                <p>Records: {data.records.toLocaleString()} ({data.rejected.toLocaleString()} rows rejected)</p>
+                <p>
+                  Periods covered: {data.firstPeriod && data.lastPeriod
+                    ? `${formatPeriod(data.firstPeriod)} to ${formatPeriod(data.lastPeriod)} (${data.periods.length} quarters)`
+                    : 'none'}
+                </p>
+                <p>Fixed networks: {formatCoverage(data.coverage.fixed)} in {data.coverage.fixed.countries} countries</p>
+                <p>Mobile networks: {formatCoverage(data.coverage.mobile)} in {data.coverage.mobile.countries} countries</p>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Coverage by Quarter</CardTitle>
+                  <CardDescription>Tiles and tests per network type</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Period</TableHead>
+                        <TableHead className="text-right">Fixed</TableHead>
+                        <TableHead className="text-right">Mobile</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.periods.map((period) => (
+                        <TableRow key={`${period.year}-${period.quarter}`}>
+                          <TableCell>{formatPeriod(period)}</TableCell>
+                          <TableCell className="text-right">{formatCoverage(period.fixed)}</TableCell>
+                          <TableCell className="text-right">{formatCoverage(period.mobile)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Units and Conversions</CardTitle>
+                  <CardDescription>How source columns map to the values shown</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Source column</TableHead>
+                        <TableHead>Source unit</TableHead>
+                        <TableHead>Shown as</TableHead>
+                        <TableHead>Conversion</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.fields.map((field) => (
+                        <TableRow key={field.column}>
+                          <TableCell className="font-mono">{field.column}</TableCell>
+                          <TableCell>{field.sourceUnit}</TableCell>
+                          <TableCell>{field.unit}</TableCell>
+                          <TableCell>{field.divisor === 1 ? 'None' : `Divided by ${field.divisor.toLocaleString()}`}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Source Files</CardTitle>
+                <CardDescription>Rows read, accepted and rejected per file</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Source</TableHead>
+                      <TableHead className="text-right">Rows</TableHead>
+                      <TableHead className="text-right">Accepted</TableHead>
+                      <TableHead className="text-right">Rejected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.files.map((file) => (
+                      <TableRow key={file.source}>
+                        <TableCell className="font-mono break-all">{file.source}</TableCell>
+                        <TableCell className="text-right">{file.rows.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{file.accepted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{file.rejected.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
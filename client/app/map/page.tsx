@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+import { SpeedMapView } from "@/components/speed-map-view"
+
+export const metadata: Metadata = {
+  title: 'Speed Map | Global Internet Speeds',
+  description: 'Explore internet speeds on an interactive world map',
+}
+
+export default function MapPage() {
+  return (
+    <SpeedMapView />
+  );
+}
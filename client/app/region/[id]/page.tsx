@@ -0,0 +1,37 @@
+import type { Metadata } from 'next'
+import { cache } from 'react'
+import { RegionDetailView } from "@/components/region-detail-view"
+import { formatPeriod, RegionDetail } from "@/lib/api"
+import { fetchServerResource } from "@/lib/server-api"
+
+interface RegionPageProps {
+  params: { id: string }
+}
+
+// Shared by generateMetadata and the page, so a view makes one request
+const fetchRegion = cache((id: string) => fetchServerResource<RegionDetail>(`/regions/${encodeURIComponent(id)}`))
+
+export async function generateMetadata({ params }: RegionPageProps): Promise<Metadata> {
+  const region = await fetchRegion(params.id)
+  // The API is unreachable; the page fetches the region again in the browser
+  if (!region) {
+    return { title: 'Region | Global Internet Speeds' }
+  }
+
+  const title = `${region.name} | Global Internet Speeds`
+  const description = region.summary
+    ? `${region.name}: ${region.summary.avgDownloadSpeed.toFixed(1)} Mbps download, ${region.summary.avgUploadSpeed.toFixed(1)} Mbps upload and ${region.summary.avgLatency.toFixed(0)} ms latency on fixed networks in ${formatPeriod(region.period)}`
+    : `Internet speeds for ${region.name}`
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'article' },
+    twitter: { card: 'summary', title, description },
+  }
+}
+
+export default async function RegionPage({ params }: RegionPageProps) {
+  return (
+    <RegionDetailView id={params.id} initialRegion={await fetchRegion(params.id)} />
+  );
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from 'next'
+import { WatchlistView } from "@/components/watchlist-view"
+
+export const metadata: Metadata = {
+  title: 'Watchlist | Global Internet Speeds',
+  description: 'Follow the regions you care about and get alerted when their speeds change',
+}
+
+export default function WatchlistPage() {
+  return <WatchlistView />;
+}
@@ -0,0 +1,27 @@
+import { Download } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { API_BASE_URL } from "@/lib/api"
+
+const FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'json', label: 'JSON' },
+]
+
+// Links to the server export; it names the file after the filters and sends it as an attachment
+export const ExportButtons = ({ query }: { query: URLSearchParams }) => (
+  <div className="flex items-center gap-2">
+    {FORMATS.map(({ value, label }) => {
+      const params = new URLSearchParams(query)
+      params.set('format', value)
+      return (
+        <Button key={value} variant="outline" size="sm" asChild>
+          <a href={`${API_BASE_URL}/export?${params}`} download>
+            <Download className="w-4 h-4 mr-1" />
+            {label}
+          </a>
+        </Button>
+      )
+    })}
+  </div>
+)
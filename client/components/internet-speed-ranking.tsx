@@ -1,56 +1,114 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { CheckCircle2, AlertCircle, Clock, InfoIcon, Moon, Sun } from 'lucide-react'
+import { CheckCircle2, AlertCircle, ArrowDown, ArrowUp, Clock, InfoIcon, Minus, Moon, Sun } from 'lucide-react'
 import Link from 'next/link'
 import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { useTheme } from 'next-themes'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
+import { ExportButtons } from "@/components/export-buttons"
+import { PeriodSelector, periodValue } from "@/components/period-selector"
+import { RegionDetailCard } from "@/components/region-detail-card"
+import { RegionSearch } from "@/components/region-search"
+import { SpeedDetails } from "@/components/speed-details"
+import { SpeedDistribution } from "@/components/speed-distribution"
+import { useDataUpdates } from "@/hooks/use-data-updates"
+import { usePeriods } from "@/hooks/use-periods"
+import { API_BASE_URL, fetchJSON, fetchJSONIfChanged, formatPeriod, getRegionName, LoadState, Period, RankedSpeedData, RankingMethod, Rankings, Trend } from "@/lib/api"
 
-const API_URL = 'http://localhost:3001/api/internet-speeds';
-const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-interface SpeedData {
-  tile: string;
-  avgDownloadSpeed: number;
-  avgUploadSpeed: number;
-  avgLatency: number;
-  tests: number;
-  devices: number;
-  year: number;
-  quarter: number;
+const API_URL = `${API_BASE_URL}/rankings`;
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds, used while the event stream is down
+
+const TREND_REGION_COUNT = 5
+const TREND_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed']
+
+// The rankings view: top fixed-network tiles of a period by download speed
+const rankingParams = (period: Period | null, method: RankingMethod) => {
+  const params = new URLSearchParams({ type: 'fixed', sort: 'download', order: 'desc', limit: '10', method })
+  if (period) {
+    params.set('year', String(period.year))
+    params.set('quarter', String(period.quarter))
+  }
+  return params
+}
+
+const RANKING_METHODS: { value: RankingMethod, label: string, description: string }[] = [
+  { value: 'raw', label: 'Raw average', description: 'Average speeds in Mbps' },
+  { value: 'adjusted', label: 'Sample-adjusted', description: 'Download speeds pulled toward the quarter average for tiles with few tests' },
+]
+
+// Resolves to null when the rankings are unchanged since the response with the given ETag
+const fetchData = (period: Period | null, method: RankingMethod, etag: string | null) => {
+  const params = rankingParams(period, method)
+  return fetchJSONIfChanged<Rankings>(`${API_URL}?${params}`, etag)
 }
 
-const fetchData = async (): Promise<SpeedData[]> => {
-  try {
-    const response = await fetch(API_URL);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+// Quarter-by-quarter download speeds of the given tiles, one row per period for Recharts
+const useTrendData = (quadkeys: string[]) => {
+  const [trends, setTrends] = useState<Trend[]>([])
+  const key = quadkeys.join(',')
+
+  useEffect(() => {
+    if (!key) {
+      setTrends([])
+      return
     }
-    return response.json();
-  } catch (error) {
-    console.error('Error fetching data:', error);
-    throw error;
-  }
+    let cancelled = false
+    Promise.all(key.split(',').map((quadkey) => fetchJSON<Trend>(`${API_BASE_URL}/trends?quadkey=${quadkey}`)))
+      .then((result) => {
+        if (!cancelled) setTrends(result)
+      })
+      .catch(() => {
+        if (!cancelled) setTrends([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  const rows = new Map<string, Record<string, number | string>>()
+  trends.forEach(({ quadkey, series }) => {
+    series.forEach((point) => {
+      const value = periodValue(point)
+      const row = rows.get(value) ?? { period: formatPeriod(point), year: point.year, quarter: point.quarter }
+      row[quadkey] = point.avgDownloadSpeed
+      rows.set(value, row)
+    })
+  })
+  return Array.from(rows.values()).sort((a, b) => Number(a.year) - Number(b.year) || Number(a.quarter) - Number(b.quarter))
 }
 
-const useInternetSpeedData = () => {
-  const [data, setData] = useState<SpeedData[]>([])
+const useInternetSpeedData = (period: Period | null, method: RankingMethod) => {
+  const [data, setData] = useState<RankedSpeedData[]>([])
+  const [currentPeriod, setCurrentPeriod] = useState<Period | null>(null)
+  const [previousPeriod, setPreviousPeriod] = useState<Period | null>(null)
+  const [loadState, setLoadState] = useState<LoadState | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
+  const etag = useRef<string | null>(null)
+  const loadedAt = useRef<string | null | undefined>(undefined)
 
-  const fetchDataAndUpdate = useCallback(async () => {
+  // Refreshes only send the ETag of the last response, so unchanged rankings cost a 304
+  const fetchDataAndUpdate = useCallback(async (refresh: boolean) => {
     try {
-      setIsLoading(true)
-      const result = await fetchData()
-      setData(result)
+      if (!refresh) setIsLoading(true)
+      const result = await fetchData(period, method, refresh ? etag.current : null)
+      if (result) {
+        etag.current = result.etag
+        setData(result.data.data)
+        setCurrentPeriod(result.data.period)
+        setPreviousPeriod(result.data.previousPeriod)
+        // An empty ranking is only meaningful once the server has finished loading data
+        setLoadState(result.data.data.length === 0 ? await fetchJSON<LoadState>(`${API_BASE_URL}/status`) : null)
+      }
       setLastUpdated(new Date())
       setError(null)
     } catch (err) {
@@ -64,15 +122,82 @@ const useInternetSpeedData = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [toast])
+  }, [toast, period, method])
 
   useEffect(() => {
-    fetchDataAndUpdate()
-    const intervalId = setInterval(fetchDataAndUpdate, REFRESH_INTERVAL)
-    return () => clearInterval(intervalId)
+    fetchDataAndUpdate(false)
   }, [fetchDataAndUpdate])
 
-  return { data, lastUpdated, isLoading, error }
+  // Refetch when the server finishes loading a new dataset; the first event only
+  // reports the state the initial fetch already reflects
+  const live = useDataUpdates((state) => {
+    setLastUpdated(new Date())
+    setLoadState((current) => current && state)
+    if (loadedAt.current === undefined) {
+      loadedAt.current = state.loadedAt
+      return
+    }
+    if (state.status !== 'ready' || state.loadedAt === loadedAt.current) return
+    loadedAt.current = state.loadedAt
+    fetchDataAndUpdate(true)
+  })
+
+  useEffect(() => {
+    if (live) return
+    const intervalId = setInterval(() => fetchDataAndUpdate(true), REFRESH_INTERVAL)
+    return () => clearInterval(intervalId)
+  }, [live, fetchDataAndUpdate])
+
+  return { data, currentPeriod, previousPeriod, loadState, lastUpdated, isLoading, error, live }
+}
+
+const EmptyRankings = ({ loadState }: { loadState: LoadState | null }) => {
+  switch (loadState?.status) {
+    case 'loading':
+      return <p>The server is still loading data. Rankings will appear once it is ready.</p>
+    case 'failed':
+      return <p>The server failed to load data: {loadState.error}</p>
+    default:
+      return <p>No regions match the selected period.</p>
+  }
+}
+
+const RankChange = ({ rank, previousRank, previousPeriod }: { rank: number, previousRank: number | null, previousPeriod: Period | null }) => {
+  let icon, text, colorClass
+
+  if (previousRank === null) {
+    icon = <Badge variant="outline">New</Badge>
+    text = previousPeriod ? `Not ranked in ${formatPeriod(previousPeriod)}` : 'No previous quarter'
+    colorClass = "text-gray-500 dark:text-gray-400"
+  } else if (previousRank > rank) {
+    icon = <ArrowUp className="w-4 h-4" />
+    text = `Up ${previousRank - rank} from #${previousRank}`
+    colorClass = "text-green-600 dark:text-green-400"
+  } else if (previousRank < rank) {
+    icon = <ArrowDown className="w-4 h-4" />
+    text = `Down ${rank - previousRank} from #${previousRank}`
+    colorClass = "text-red-600 dark:text-red-400"
+  } else {
+    icon = <Minus className="w-4 h-4" />
+    text = 'No change'
+    colorClass = "text-gray-500 dark:text-gray-400"
+  }
+
+  return (
+    <TooltipProvider>
+      <UITooltip>
+        <TooltipTrigger asChild>
+          <span className={`inline-flex items-center ${colorClass}`}>
+            {icon}
+            <span className="sr-only">{text}</span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{text}</p>
+        </TooltipContent>
+      </UITooltip>
+    </TooltipProvider>
+  )
 }
 
 const DataFreshnessIndicator = ({ lastUpdated }: { lastUpdated: Date }) => {
@@ -121,13 +246,15 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     const data = payload[0].payload;
     return (
       <div className="bg-white dark:bg-gray-800 p-4 rounded shadow">
-        <p className="font-semibold">{data.tile}</p>
-        <p>Download Speed: {data.avgDownloadSpeed.toFixed(2)} Mbps</p>
-        <p>Upload Speed: {data.avgUploadSpeed.toFixed(2)} Mbps</p>
-        <p>Latency: {data.avgLatency.toFixed(2)} ms</p>
-        <p>Tests: {data.tests.toLocaleString()}</p>
-        <p>Devices: {data.devices.toLocaleString()}</p>
-        <p>Period: Q{data.quarter} {data.year}</p>
+        <SpeedDetails title={getRegionName(data)} data={data} period={data}>
+          <p>Quadkey: {data.quadkey}</p>
+          <p>Centroid: {data.centroid.lat.toFixed(4)}, {data.centroid.lon.toFixed(4)}</p>
+        </SpeedDetails>
+        {data.interval && (
+          <p>
+            Ranking score: {data.score.toFixed(2)} Mbps (95% CI {data.interval.lower.toFixed(2)}–{data.interval.upper.toFixed(2)})
+          </p>
+        )}
       </div>
     )
   }
@@ -150,8 +277,14 @@ const ThemeToggle = () => {
 }
 
 export function InternetSpeedRankingComponent() {
-  const { data, lastUpdated, isLoading, error } = useInternetSpeedData()
+  const periods = usePeriods()
+  const [selectedPeriod, setSelectedPeriod] = useState<Period | null>(null)
+  const [rankingMethod, setRankingMethod] = useState<RankingMethod>('raw')
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null)
+  const { data, currentPeriod, previousPeriod, loadState, lastUpdated, isLoading, error, live } = useInternetSpeedData(selectedPeriod, rankingMethod)
   const [activeTab, setActiveTab] = useState('download')
+  const trendRegions = data.slice(0, TREND_REGION_COUNT)
+  const trendData = useTrendData(trendRegions.map((item) => item.quadkey))
 
   if (error) {
     return (
@@ -168,8 +301,12 @@ export function InternetSpeedRankingComponent() {
         <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
           <h1 className="text-3xl font-bold">Global Internet Speeds</h1>
           <nav className="flex items-center space-x-4">
+            <RegionSearch onSelect={(result) => setSelectedRegion(result.id)} />
             <ul className="flex space-x-4">
-              <li><a href="#" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Home</a></li>
+              <li><Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Home</Link></li>
+              <li><Link href="/map" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Map</Link></li>
+              <li><Link href="/compare" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Compare</Link></li>
+              <li><Link href="/watchlist" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Watchlist</Link></li>
               <li><a href="#" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">About</a></li>
               <li><a href="#" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Contact</a></li>
             </ul>
@@ -179,6 +316,9 @@ export function InternetSpeedRankingComponent() {
       </header>
 
       <main className="flex-grow container mx-auto px-4 py-8">
+        {selectedRegion && (
+          <RegionDetailCard id={selectedRegion} period={currentPeriod} onClose={() => setSelectedRegion(null)} />
+        )}
         <div className="mb-8 flex flex-col sm:flex-row justify-between items-center gap-4">
           <div className="flex items-center gap-2 flex-wrap">
             <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -199,24 +339,44 @@ export function InternetSpeedRankingComponent() {
               </UITooltip>
             </TooltipProvider>
           </div>
-          <p className="text-sm text-gray-500 dark:text-gray-400">
-            Data refreshes automatically every 5 minutes
-          </p>
+          <div className="flex items-center gap-4">
+            <PeriodSelector periods={periods} value={selectedPeriod} onChange={setSelectedPeriod} />
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {live ? 'Updates live when new data is loaded' : 'Checking for new data every 5 minutes'}
+            </p>
+          </div>
         </div>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <Card className="lg:col-span-1">
-            <CardHeader>
-              <CardTitle>Top 10 Regions by Internet Speed</CardTitle>
-              <CardDescription>Average speeds in Mbps</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Top 10 Regions by Internet Speed</CardTitle>
+                <CardDescription>
+                  {RANKING_METHODS.find(({ value }) => value === rankingMethod)?.description}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                {RANKING_METHODS.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={rankingMethod === value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setRankingMethod(value)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
             </CardHeader>
             <CardContent>
               {isLoading ? (
                 <div className="flex justify-center items-center h-[400px]">Loading...</div>
               ) : (
                 <Tabs defaultValue="download" className="w-full" onValueChange={setActiveTab}>
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="download">Download Speed</TabsTrigger>
                     <TabsTrigger value="upload">Upload Speed</TabsTrigger>
+                    <TabsTrigger value="trend">Trend</TabsTrigger>
                   </TabsList>
                   <TabsContent value="download">
                     <div className="h-[400px] sm:h-[500px] w-full">
@@ -229,7 +389,7 @@ export function InternetSpeedRankingComponent() {
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis type="number" domain={[0, 'dataMax + 20']} />
                           <YAxis 
-                            dataKey="tile" 
+                            dataKey={getRegionName} 
                             type="category" 
                             width={100}
                             tick={({ x, y, payload }) => (
@@ -239,7 +399,7 @@ export function InternetSpeedRankingComponent() {
                             )}
                           />
                           <Tooltip content={<CustomTooltip />} />
-                          <Bar dataKey="avgDownloadSpeed" fill="var(--primary)" barSize={20} />
+                          <Bar dataKey={rankingMethod === 'adjusted' ? 'score' : 'avgDownloadSpeed'} fill="var(--primary)" barSize={20} />
                         </BarChart>
                       </ResponsiveContainer>
                     </div>
@@ -255,7 +415,7 @@ export function InternetSpeedRankingComponent() {
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis type="number" domain={[0, 'dataMax + 20']} />
                           <YAxis 
-                            dataKey="tile" 
+                            dataKey={getRegionName} 
                             type="category" 
                             width={100}
                             tick={({ x, y, payload }) => (
@@ -270,15 +430,41 @@ export function InternetSpeedRankingComponent() {
                       </ResponsiveContainer>
                     </div>
                   </TabsContent>
+                  <TabsContent value="trend">
+                    <div className="h-[400px] sm:h-[500px] w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={trendData} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="period" />
+                          <YAxis unit=" Mbps" width={80} />
+                          <Tooltip formatter={(value: number) => `${value.toFixed(2)} Mbps`} />
+                          <Legend />
+                          {trendRegions.map((item, index) => (
+                            <Line
+                              key={item.quadkey}
+                              type="monotone"
+                              dataKey={item.quadkey}
+                              name={getRegionName(item)}
+                              stroke={TREND_COLORS[index % TREND_COLORS.length]}
+                              connectNulls
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </TabsContent>
                 </Tabs>
               )}
             </CardContent>
           </Card>
 
           <Card className="lg:col-span-1">
-            <CardHeader>
-              <CardTitle>Detailed Region Rankings</CardTitle>
-              <CardDescription>Internet speed rankings and details</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Detailed Region Rankings</CardTitle>
+                <CardDescription>Internet speed rankings and details</CardDescription>
+              </div>
+              <ExportButtons query={rankingParams(currentPeriod, rankingMethod)} />
             </CardHeader>
             <CardContent>
               {isLoading ? (
@@ -288,7 +474,7 @@ export function InternetSpeedRankingComponent() {
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead className="w-16">Rank</TableHead>
+                        <TableHead className="w-24">Rank</TableHead>
                         <TableHead>Region</TableHead>
                         <TableHead className="w-32 text-right">Download (Mbps)</TableHead>
                         <TableHead className="w-32 text-right">Upload (Mbps)</TableHead>
@@ -299,11 +485,23 @@ export function InternetSpeedRankingComponent() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {data.map((item, index) => (
-                        <TableRow key={item.tile}>
-                          <TableCell>{index + 1}</TableCell>
-                          
-                          <TableCell>{item.tile}</TableCell>
+                      {data.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={8} className="text-center text-gray-500 dark:text-gray-400">
+                            <EmptyRankings loadState={loadState} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {data.map((item) => (
+                        <TableRow key={item.quadkey}>
+                          <TableCell>
+                            <span className="inline-flex items-center gap-1">
+                              {item.rank}
+                              <RankChange rank={item.rank} previousRank={item.previousRank} previousPeriod={previousPeriod} />
+                            </span>
+                          </TableCell>
+
+                          <TableCell>{getRegionName(item)}</TableCell>
                           <TableCell className="text-right">{item.avgDownloadSpeed.toFixed(2)}</TableCell>
                           <TableCell className="text-right">{item.avgUploadSpeed.toFixed(2)}</TableCell>
                           <TableCell className="text-right">{item.avgLatency.toFixed(2)}</TableCell>
@@ -320,6 +518,8 @@ export function InternetSpeedRankingComponent() {
               )}
             </CardContent>
           </Card>
+
+          <SpeedDistribution period={currentPeriod} />
         </div>
       </main>
 
@@ -0,0 +1,22 @@
+import { formatPeriod, Period } from "@/lib/api"
+
+export const periodValue = ({ year, quarter }: Period) => `${year}-${quarter}`
+
+export const PeriodSelector = ({ periods, value, onChange }: { periods: Period[], value: Period | null, onChange: (period: Period) => void }) => (
+  <select
+    aria-label="Select period"
+    value={value ? periodValue(value) : ''}
+    onChange={(event) => {
+      const period = periods.find((item) => periodValue(item) === event.target.value)
+      if (period) onChange(period)
+    }}
+    className="h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm"
+  >
+    {!value && <option value="">Latest period</option>}
+    {[...periods].reverse().map((period) => (
+      <option key={periodValue(period)} value={periodValue(period)}>
+        {formatPeriod(period)}
+      </option>
+    ))}
+  </select>
+)
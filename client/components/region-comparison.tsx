@@ -0,0 +1,303 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { PeriodSelector, periodValue } from "@/components/period-selector"
+import { usePeriods } from "@/hooks/use-periods"
+import { AggregateGroup, API_BASE_URL, Comparison, fetchJSON, formatPeriod, Period, RegionComparison } from "@/lib/api"
+import { MapMetric, METRIC_FIELDS } from "@/lib/map-metrics"
+
+const MIN_REGIONS = 2
+const MAX_REGIONS = 5
+const REGION_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#d97706', '#7c3aed']
+
+const METRIC_OPTIONS: { value: MapMetric, label: string, unit: string }[] = [
+  { value: 'download', label: 'Download Speed', unit: 'Mbps' },
+  { value: 'upload', label: 'Upload Speed', unit: 'Mbps' },
+  { value: 'latency', label: 'Latency', unit: 'ms' },
+]
+
+const SELECT_CLASS = "h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm"
+
+interface RegionOption {
+  id: string
+  name: string
+}
+
+// Countries and admin regions known to the server, as compare ids
+const useRegionOptions = () => {
+  const [countries, setCountries] = useState<RegionOption[]>([])
+  const [regions, setRegions] = useState<RegionOption[]>([])
+
+  useEffect(() => {
+    const byName = (a: RegionOption, b: RegionOption) => a.name.localeCompare(b.name)
+    fetchJSON<AggregateGroup[]>(`${API_BASE_URL}/aggregates?groupBy=country`)
+      .then((groups) => setCountries(groups.map((group) => ({ id: `country:${group.key}`, name: group.name })).sort(byName)))
+      .catch(() => setCountries([]))
+    fetchJSON<AggregateGroup[]>(`${API_BASE_URL}/aggregates?groupBy=region`)
+      .then((groups) => setRegions(groups.map((group) => ({ id: `region:${group.key}`, name: group.name })).sort(byName)))
+      .catch(() => setRegions([]))
+  }, [])
+
+  return { countries, regions }
+}
+
+const useComparison = (ids: string[], period: Period | null) => {
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const key = ids.join(',')
+  const periodKey = period ? periodValue(period) : ''
+
+  useEffect(() => {
+    if (key.split(',').length < MIN_REGIONS) {
+      setComparison(null)
+      setError(null)
+      return
+    }
+    let cancelled = false
+    const params = new URLSearchParams({ ids: key })
+    if (periodKey) {
+      const [year, quarter] = periodKey.split('-')
+      params.set('year', year)
+      params.set('quarter', quarter)
+    }
+    fetchJSON<Comparison>(`${API_BASE_URL}/compare?${params}`)
+      .then((result) => {
+        if (cancelled) return
+        setComparison(result)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setComparison(null)
+        setError(err instanceof Error ? err.message : 'An unknown error occurred')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [key, periodKey])
+
+  return { comparison, error }
+}
+
+// One row per quarter with a column per region, for Recharts
+const trendRows = (regions: RegionComparison[], metric: MapMetric) => {
+  const rows = new Map<string, Record<string, number | string>>()
+  regions.forEach(({ id, trend }) => {
+    trend.forEach((point) => {
+      const value = periodValue(point)
+      const row = rows.get(value) ?? { period: formatPeriod(point), year: point.year, quarter: point.quarter }
+      row[id] = point[METRIC_FIELDS[metric]]
+      rows.set(value, row)
+    })
+  })
+  return Array.from(rows.values()).sort((a, b) => Number(a.year) - Number(b.year) || Number(a.quarter) - Number(b.quarter))
+}
+
+const formatPosition = (value: number) => `${value.toFixed(0)}th percentile`
+
+const COMPARISON_ROWS: { label: string, value: (region: RegionComparison) => string }[] = [
+  { label: 'Download (Mbps)', value: ({ summary }) => summary ? summary.avgDownloadSpeed.toFixed(2) : '–' },
+  { label: 'Upload (Mbps)', value: ({ summary }) => summary ? summary.avgUploadSpeed.toFixed(2) : '–' },
+  { label: 'Latency (ms)', value: ({ summary }) => summary ? summary.avgLatency.toFixed(2) : '–' },
+  { label: 'Tests', value: ({ summary }) => summary ? summary.tests.toLocaleString() : '–' },
+  { label: 'Devices', value: ({ summary }) => summary ? summary.devices.toLocaleString() : '–' },
+  { label: 'Tiles', value: ({ summary }) => summary ? summary.tiles.toLocaleString() : '–' },
+  { label: 'Download position', value: ({ position }) => position ? formatPosition(position.download) : '–' },
+  { label: 'Upload position', value: ({ position }) => position ? formatPosition(position.upload) : '–' },
+  { label: 'Latency position', value: ({ position }) => position ? formatPosition(position.latency) : '–' },
+]
+
+export function RegionComparisonView() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const ids = (searchParams.get('ids') ?? '').split(',').filter(Boolean)
+
+  const periods = usePeriods()
+  const [period, setPeriod] = useState<Period | null>(null)
+  const [metric, setMetric] = useState<MapMetric>('download')
+  const [tile, setTile] = useState('')
+  const { countries, regions } = useRegionOptions()
+  const { comparison, error } = useComparison(ids, period)
+
+  // The selection lives in the URL so comparisons can be shared
+  const setIds = (next: string[]) => {
+    const params = new URLSearchParams(searchParams)
+    if (next.length > 0) {
+      params.set('ids', next.join(','))
+    } else {
+      params.delete('ids')
+    }
+    router.replace(`${pathname}?${params}`)
+  }
+
+  const addRegion = (id: string) => {
+    if (id && !ids.includes(id) && ids.length < MAX_REGIONS) setIds([...ids, id])
+  }
+
+  const names = new Map([...countries, ...regions].map((option) => [option.id, option.name]))
+  comparison?.regions.forEach((region) => names.set(region.id, region.name))
+  const unit = METRIC_OPTIONS.find((option) => option.value === metric)?.unit
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Compare Regions</h1>
+          <Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Back to rankings</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-8 space-y-8">
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle>Regions</CardTitle>
+              <CardDescription>Pick {MIN_REGIONS} to {MAX_REGIONS} countries, regions or tiles</CardDescription>
+            </div>
+            <PeriodSelector periods={periods} value={period} onChange={setPeriod} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {ids.map((id, index) => (
+                <span
+                  key={id}
+                  className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-sm"
+                  style={{ borderColor: REGION_COLORS[index % REGION_COLORS.length] }}
+                >
+                  {names.get(id) ?? id}
+                  <button onClick={() => setIds(ids.filter((other) => other !== id))} aria-label={`Remove ${names.get(id) ?? id}`}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {ids.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No regions selected</p>}
+            </div>
+            {ids.length < MAX_REGIONS && (
+              <div className="flex flex-wrap items-center gap-2">
+                <select aria-label="Add a country or region" value="" onChange={(event) => addRegion(event.target.value)} className={SELECT_CLASS}>
+                  <option value="">Add a country or region…</option>
+                  <optgroup label="Countries">
+                    {countries.map((option) => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Regions">
+                    {regions.map((option) => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                <form
+                  className="flex items-center gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault()
+                    if (/^[0-3]+$/.test(tile)) {
+                      addRegion(`tile:${tile}`)
+                      setTile('')
+                    }
+                  }}
+                >
+                  <input
+                    aria-label="Tile quadkey"
+                    placeholder="Tile quadkey"
+                    value={tile}
+                    onChange={(event) => setTile(event.target.value.trim())}
+                    className={SELECT_CLASS}
+                  />
+                  <Button type="submit" variant="outline" size="sm">Add tile</Button>
+                </form>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {error && <p className="text-red-500 dark:text-red-400">Failed to load comparison: {error}</p>}
+
+        {comparison && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Side by Side</CardTitle>
+                <CardDescription>
+                  {comparison.type === 'fixed' ? 'Fixed' : 'Mobile'} network averages in {formatPeriod(comparison.period)}, weighted by tests. Positions are relative to every tile in the quarter.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      {comparison.regions.map((region) => (
+                        <TableHead key={region.id} className="text-right">{region.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {COMPARISON_ROWS.map((row) => (
+                      <TableRow key={row.label}>
+                        <TableCell>{row.label}</TableCell>
+                        {comparison.regions.map((region) => (
+                          <TableCell key={region.id} className="text-right">{row.value(region)}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                  <CardTitle>Quarterly Trend</CardTitle>
+                  <CardDescription>Every quarter with data for each region</CardDescription>
+                </div>
+                <select
+                  aria-label="Select metric"
+                  value={metric}
+                  onChange={(event) => setMetric(event.target.value as MapMetric)}
+                  className={SELECT_CLASS}
+                >
+                  {METRIC_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[400px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trendRows(comparison.regions, metric)} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="period" />
+                      <YAxis unit={` ${unit}`} width={80} />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(2)} ${unit}`} />
+                      <Legend />
+                      {comparison.regions.map((region, index) => (
+                        <Line
+                          key={region.id}
+                          type="monotone"
+                          dataKey={region.id}
+                          name={region.name}
+                          stroke={REGION_COLORS[index % REGION_COLORS.length]}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
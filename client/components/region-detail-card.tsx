@@ -0,0 +1,45 @@
+'use client'
+
+import Link from 'next/link'
+import { X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { SpeedDetails } from "@/components/speed-details"
+import { useRegionDetail } from "@/hooks/use-region-detail"
+import { Period } from "@/lib/api"
+
+// Metrics and global rank of a region picked from search
+export const RegionDetailCard = ({ id, period, onClose }: { id: string, period: Period | null, onClose: () => void }) => {
+  const { detail, error } = useRegionDetail(id, period)
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{detail?.name ?? 'Loading...'}</CardTitle>
+          <CardDescription>
+            {detail?.rank
+              ? `Ranked #${detail.rank.position} of ${detail.rank.total} ${detail.kind === 'tile' ? 'tiles' : detail.kind === 'country' ? 'countries' : 'regions'} by download speed`
+              : 'Not ranked in this period'}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close region details">
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {error && <p className="text-red-500 dark:text-red-400">Failed to load region: {error}</p>}
+        {detail && (detail.summary ? (
+          <SpeedDetails title="Fixed network" data={detail.summary} period={detail.period}>
+            <p>Tiles: {detail.summary.tiles.toLocaleString()}</p>
+          </SpeedDetails>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No fixed network data in this period</p>
+        ))}
+        <Link href={`/region/${encodeURIComponent(id)}`} className="inline-block pt-2 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300">
+          View full details
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PeriodSelector } from "@/components/period-selector"
+import { SpeedDetails } from "@/components/speed-details"
+import { usePeriods } from "@/hooks/use-periods"
+import { useRegionDetail } from "@/hooks/use-region-detail"
+import { useWatchlist } from "@/hooks/use-watchlist"
+import { formatPeriod, Period, RegionDetail, RegionKind } from "@/lib/api"
+
+const KIND_PLURALS: Record<RegionKind, string> = {
+  tile: 'tiles',
+  country: 'countries',
+  region: 'regions',
+}
+
+const formatDifference = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+
+export function RegionDetailView({ id, initialRegion }: { id: string, initialRegion: RegionDetail | null }) {
+  const periods = usePeriods()
+  const [period, setPeriod] = useState<Period | null>(null)
+  const { detail, error } = useRegionDetail(id, period, initialRegion)
+  const watchlist = useWatchlist()
+  const watched = watchlist.isWatched(detail?.id ?? id)
+
+  const trend = (detail?.trend ?? []).map((point) => ({ ...point, period: formatPeriod(point) }))
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold">{detail?.name ?? id}</h1>
+          <nav className="flex items-center space-x-4">
+            {!watchlist.loading && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => (watched ? watchlist.removeRegion : watchlist.addRegion)(detail?.id ?? id)}
+              >
+                {watched ? 'Unwatch' : 'Watch'}
+              </Button>
+            )}
+            <Link href="/watchlist" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Watchlist</Link>
+            <Link href={`/compare?ids=${encodeURIComponent(id)}`} className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Compare</Link>
+            <Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Back to rankings</Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {!detail ? (
+          <p className={error ? 'text-red-500 dark:text-red-400' : ''}>
+            {error ? `Region not found or failed to load: ${error}` : 'Loading...'}
+          </p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-col gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Fixed Network Speeds</CardTitle>
+                  <CardDescription>
+                    {detail.rank
+                      ? `Ranked #${detail.rank.position} of ${detail.rank.total} ${KIND_PLURALS[detail.kind]} by download speed`
+                      : 'Not ranked in this period'}
+                  </CardDescription>
+                </div>
+                <PeriodSelector periods={periods} value={period ?? detail.period} onChange={setPeriod} />
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {detail.summary ? (
+                  <SpeedDetails title={formatPeriod(detail.period)} data={detail.summary}>
+                    <p>Tiles: {detail.summary.tiles.toLocaleString()}</p>
+                  </SpeedDetails>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No data in {formatPeriod(detail.period)}</p>
+                )}
+                {detail.position && (
+                  <div className="pt-4">
+                    <p className="font-semibold">Percentile among all tiles</p>
+                    <p>Download: {detail.position.download.toFixed(0)}th</p>
+                    <p>Upload: {detail.position.upload.toFixed(0)}th</p>
+                    <p>Latency: {detail.position.latency.toFixed(0)}th (higher is lower latency)</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Compared to Country Average</CardTitle>
+                <CardDescription>
+                  {detail.country ? `${detail.country.name} in ${formatPeriod(detail.period)}` : 'No country average available'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {detail.country && (
+                  <>
+                    <SpeedDetails title={detail.country.name} data={detail.country.summary} />
+                    {detail.country.difference && (
+                      <div className="pt-4">
+                        <p className="font-semibold">This {detail.kind} vs. country</p>
+                        <p>Download: {formatDifference(detail.country.difference.download)}</p>
+                        <p>Upload: {formatDifference(detail.country.difference.upload)}</p>
+                        <p>Latency: {formatDifference(detail.country.difference.latency)}</p>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Neighbouring Tiles</CardTitle>
+                <CardDescription>
+                  {detail.kind === 'tile' ? 'Adjacent tiles with data in this period' : 'Available for tiles only'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {detail.neighbours.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No neighbouring tiles</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tile</TableHead>
+                        <TableHead className="text-right">Download (Mbps)</TableHead>
+                        <TableHead className="text-right">Latency (ms)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.neighbours.map((neighbour) => (
+                        <TableRow key={neighbour.id}>
+                          <TableCell>
+                            <Link href={`/region/${encodeURIComponent(neighbour.id)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                              {neighbour.quadkey}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{neighbour.summary.avgDownloadSpeed.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{neighbour.summary.avgLatency.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>Quarterly Trend</CardTitle>
+                <CardDescription>Test-weighted averages for every quarter with data</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[400px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="period" />
+                      <YAxis yAxisId="speed" unit=" Mbps" width={80} />
+                      <YAxis yAxisId="latency" orientation="right" unit=" ms" width={60} />
+                      <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                      <Legend />
+                      <Line yAxisId="speed" type="monotone" dataKey="avgDownloadSpeed" name="Download (Mbps)" stroke="#2563eb" />
+                      <Line yAxisId="speed" type="monotone" dataKey="avgUploadSpeed" name="Upload (Mbps)" stroke="#16a34a" />
+                      <Line yAxisId="latency" type="monotone" dataKey="avgLatency" name="Latency (ms)" stroke="#d97706" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Search } from 'lucide-react'
+import { API_BASE_URL, fetchJSON, RegionKind, SearchResult } from "@/lib/api"
+
+const SUGGESTION_LIMIT = 8
+const DEBOUNCE_MS = 200
+
+const KIND_LABELS: Record<RegionKind, string> = {
+  country: 'Country',
+  region: 'Region',
+  tile: 'Tile',
+}
+
+const useSuggestions = (query: string) => {
+  const [suggestions, setSuggestions] = useState<SearchResult[]>([])
+
+  useEffect(() => {
+    const q = query.trim()
+    if (!q) {
+      setSuggestions([])
+      return
+    }
+    let cancelled = false
+    // Wait for a pause in typing before asking the server
+    const timeout = setTimeout(() => {
+      const params = new URLSearchParams({ q, limit: String(SUGGESTION_LIMIT) })
+      fetchJSON<SearchResult[]>(`${API_BASE_URL}/search?${params}`)
+        .then((result) => {
+          if (!cancelled) setSuggestions(result)
+        })
+        .catch(() => {
+          if (!cancelled) setSuggestions([])
+        })
+    }, DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query])
+
+  return suggestions
+}
+
+// Type-ahead search over country and region names and tile quadkeys
+export const RegionSearch = ({ onSelect }: { onSelect: (result: SearchResult) => void }) => {
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const suggestions = useSuggestions(query)
+
+  const select = (result: SearchResult) => {
+    onSelect(result)
+    setQuery('')
+    setOpen(false)
+  }
+
+  return (
+    <div className="relative w-64">
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+      <input
+        type="search"
+        role="combobox"
+        aria-label="Search regions"
+        aria-expanded={open && suggestions.length > 0}
+        aria-controls="region-search-suggestions"
+        placeholder="Search country, region or quadkey"
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setHighlighted(0)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowDown') {
+            event.preventDefault()
+            setHighlighted((index) => Math.min(index + 1, suggestions.length - 1))
+          } else if (event.key === 'ArrowUp') {
+            event.preventDefault()
+            setHighlighted((index) => Math.max(index - 1, 0))
+          } else if (event.key === 'Enter' && suggestions[highlighted]) {
+            event.preventDefault()
+            select(suggestions[highlighted])
+          } else if (event.key === 'Escape') {
+            setOpen(false)
+          }
+        }}
+        className="h-9 w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 pl-8 pr-3 text-sm"
+      />
+      {open && suggestions.length > 0 && (
+        <ul
+          id="region-search-suggestions"
+          role="listbox"
+          className="absolute z-10 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg max-h-80 overflow-auto"
+        >
+          {suggestions.map((result, index) => (
+            <li
+              key={result.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Select before the input's blur closes the list
+              onMouseDown={(event) => {
+                event.preventDefault()
+                select(result)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-3 py-2 text-sm cursor-pointer flex justify-between gap-2 ${index === highlighted ? 'bg-gray-100 dark:bg-gray-700' : ''}`}
+            >
+              <span className="truncate">{result.name}</span>
+              <span className="text-gray-500 dark:text-gray-400">{KIND_LABELS[result.kind]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
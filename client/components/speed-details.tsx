@@ -0,0 +1,16 @@
+import { ReactNode } from 'react'
+import { formatPeriod, Period, SpeedMetrics } from "@/lib/api"
+
+// Metric lines shared by chart and map tooltips
+export const SpeedDetails = ({ title, data, period, children }: { title: string, data: SpeedMetrics, period?: Period, children?: ReactNode }) => (
+  <>
+    <p className="font-semibold">{title}</p>
+    {children}
+    <p>Download Speed: {data.avgDownloadSpeed.toFixed(2)} Mbps</p>
+    <p>Upload Speed: {data.avgUploadSpeed.toFixed(2)} Mbps</p>
+    <p>Latency: {data.avgLatency.toFixed(2)} ms</p>
+    <p>Tests: {data.tests.toLocaleString()}</p>
+    <p>Devices: {data.devices.toLocaleString()}</p>
+    {period && <p>Period: {formatPeriod(period)}</p>}
+  </>
+)
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { API_BASE_URL, fetchJSON, formatPeriod, MetricDistribution, Period, SpeedStats } from "@/lib/api"
+
+const METRICS = [
+  { value: 'download', label: 'Download', unit: 'Mbps' },
+  { value: 'upload', label: 'Upload', unit: 'Mbps' },
+  { value: 'latency', label: 'Latency', unit: 'ms' },
+] as const
+
+const PERCENTILES = [
+  { key: 'p10', label: 'P10' },
+  { key: 'p25', label: 'P25' },
+  { key: 'median', label: 'Median' },
+  { key: 'p75', label: 'P75' },
+  { key: 'p90', label: 'P90' },
+] as const
+
+const useSpeedStats = (period: Period | null, type: string) => {
+  const [stats, setStats] = useState<SpeedStats | null>(null)
+
+  useEffect(() => {
+    if (!period) {
+      setStats(null)
+      return
+    }
+    let cancelled = false
+    const params = new URLSearchParams({ type, year: String(period.year), quarter: String(period.quarter) })
+    fetchJSON<SpeedStats>(`${API_BASE_URL}/stats?${params}`)
+      .then((result) => {
+        if (!cancelled) setStats(result)
+      })
+      .catch(() => {
+        if (!cancelled) setStats(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [period, type])
+
+  return stats
+}
+
+const Histogram = ({ distribution, unit }: { distribution: MetricDistribution, unit: string }) => {
+  const buckets = distribution.histogram.map((bucket) => ({
+    ...bucket,
+    label: `${bucket.min.toFixed(0)}–${bucket.max.toFixed(0)}`,
+  }))
+
+  return (
+    <>
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={buckets} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" unit={` ${unit}`} tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} />
+            <Tooltip formatter={(value: number) => [value.toLocaleString(), 'Tiles']} />
+            <Bar dataKey="tiles" fill="var(--primary)" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <dl className="grid grid-cols-3 sm:grid-cols-6 gap-2 mt-4 text-sm">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Weighted mean</dt>
+          <dd className="font-medium">{distribution.mean.toFixed(2)} {unit}</dd>
+        </div>
+        {PERCENTILES.map(({ key, label }) => (
+          <div key={key}>
+            <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+            <dd className="font-medium">{distribution.percentiles[key].toFixed(2)} {unit}</dd>
+          </div>
+        ))}
+      </dl>
+    </>
+  )
+}
+
+// Histograms of tile speeds for the period shown in the rankings, with
+// percentiles and the test-weighted mean below each chart
+export const SpeedDistribution = ({ period, type = 'fixed' }: { period: Period | null, type?: string }) => {
+  const stats = useSpeedStats(period, type)
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Distribution</CardTitle>
+        <CardDescription>
+          {stats && period
+            ? `${stats.tiles.toLocaleString()} tiles and ${stats.tests.toLocaleString()} tests in ${formatPeriod(period)}`
+            : 'Speeds across all tiles'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!stats?.download ? (
+          <div className="flex justify-center items-center h-[300px]">No data available</div>
+        ) : (
+          <Tabs defaultValue="download" className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              {METRICS.map(({ value, label }) => (
+                <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+              ))}
+            </TabsList>
+            {METRICS.map(({ value, unit }) => {
+              const distribution = stats[value]
+              return (
+                <TabsContent key={value} value={value}>
+                  {distribution && <Histogram distribution={distribution} unit={unit} />}
+                </TabsContent>
+              )
+            })}
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
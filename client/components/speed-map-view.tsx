@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PeriodSelector } from "@/components/period-selector"
+import { SpeedDetails } from "@/components/speed-details"
+import { usePeriods } from "@/hooks/use-periods"
+import { AggregateGroup, API_BASE_URL, fetchJSON, getRegionName, Period, SpeedData } from "@/lib/api"
+import { MapMetric, metricLegend } from "@/lib/map-metrics"
+
+// Leaflet touches window on import, so the map is only rendered in the browser
+const SpeedMap = dynamic(() => import("@/components/speed-map"), {
+  ssr: false,
+  loading: () => <div className="flex justify-center items-center h-full">Loading map...</div>,
+})
+
+const METRIC_OPTIONS: { value: MapMetric, label: string }[] = [
+  { value: 'download', label: 'Download Speed' },
+  { value: 'upload', label: 'Upload Speed' },
+  { value: 'latency', label: 'Latency' },
+]
+
+const TYPE_OPTIONS: { value: SpeedData['type'], label: string }[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'mobile', label: 'Mobile' },
+]
+
+export function SpeedMapView() {
+  const periods = usePeriods()
+  const [period, setPeriod] = useState<Period | null>(null)
+  const [metric, setMetric] = useState<MapMetric>('download')
+  const [type, setType] = useState<SpeedData['type']>('fixed')
+  const [selected, setSelected] = useState<SpeedData | null>(null)
+
+  // Cells and the tile opened from them come from the same quarter and network type
+  const query = new URLSearchParams({
+    type,
+    ...(period ? { year: String(period.year), quarter: String(period.quarter) } : {}),
+  }).toString()
+
+  const handleSelect = (group: AggregateGroup) => {
+    fetchJSON<SpeedData>(`${API_BASE_URL}/internet-speeds/${group.key}?${query}`)
+      .then(setSelected)
+      .catch(() => setSelected(null))
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Speed Map</h1>
+          <Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Back to rankings</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <Card className="lg:col-span-3">
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle>Internet Speeds by Area</CardTitle>
+              <CardDescription>Zoom in or click an area to drill down to individual tiles</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                aria-label="Select metric"
+                value={metric}
+                onChange={(event) => setMetric(event.target.value as MapMetric)}
+                className="h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm"
+              >
+                {METRIC_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Select network type"
+                value={type}
+                onChange={(event) => setType(event.target.value as SpeedData['type'])}
+                className="h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm"
+              >
+                {TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <PeriodSelector periods={periods} value={period} onChange={setPeriod} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[500px] sm:h-[600px] w-full">
+              <SpeedMap metric={metric} query={query} onSelect={handleSelect} />
+            </div>
+            <div className="mt-4 flex flex-wrap gap-4 text-sm">
+              {metricLegend(metric).map(({ color, label }) => (
+                <span key={label} className="inline-flex items-center gap-1">
+                  <span className="w-4 h-4 rounded-sm" style={{ backgroundColor: color }} />
+                  {label}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>Tile Details</CardTitle>
+            <CardDescription>Select a tile on the map</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {selected ? (
+              <SpeedDetails title={getRegionName(selected)} data={selected} period={selected}>
+                <p>Quadkey: {selected.quadkey}</p>
+              </SpeedDetails>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No tile selected</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
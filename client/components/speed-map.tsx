@@ -0,0 +1,157 @@
+'use client'
+
+import 'leaflet/dist/leaflet.css'
+import { useCallback, useEffect, useState } from 'react'
+import { GeoJSON, MapContainer, Rectangle, TileLayer, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import type { LatLngBoundsExpression } from 'leaflet'
+import type { FeatureCollection } from 'geojson'
+import { SpeedDetails } from "@/components/speed-details"
+import { AggregateGroup, API_BASE_URL, BoundingBox, fetchJSON } from "@/lib/api"
+import { MapMetric, METRIC_FIELDS, metricColor } from "@/lib/map-metrics"
+
+// Optional self-hosted raster tiles; without it the bundled country outlines are the only basemap
+const BASEMAP_TILE_URL = process.env.NEXT_PUBLIC_BASEMAP_TILE_URL
+
+// Tiles in the dataset are zoom 16; aggregate a few levels below the map zoom so cells stay visible
+const AGGREGATION_OFFSET = 4
+const MAX_AGGREGATION_ZOOM = 16
+
+const toBounds = ({ west, south, east, north }: BoundingBox): LatLngBoundsExpression => [[south, west], [north, east]]
+
+const aggregationZoom = (mapZoom: number) => Math.min(MAX_AGGREGATION_ZOOM, Math.max(1, Math.round(mapZoom) + AGGREGATION_OFFSET))
+
+interface Viewport {
+  zoom: number;
+  bbox: BoundingBox;
+}
+
+const ViewportWatcher = ({ onChange }: { onChange: (viewport: Viewport) => void }) => {
+  const map = useMap()
+
+  const report = useCallback(() => {
+    const bounds = map.getBounds()
+    onChange({
+      zoom: map.getZoom(),
+      bbox: {
+        west: Math.max(-180, bounds.getWest()),
+        south: Math.max(-90, bounds.getSouth()),
+        east: Math.min(180, bounds.getEast()),
+        north: Math.min(90, bounds.getNorth()),
+      },
+    })
+  }, [map, onChange])
+
+  useMapEvents({ moveend: report })
+  useEffect(report, [report])
+
+  return null
+}
+
+// The outlines never change while the page is open, so every map mount shares one request
+let basemapRequest: Promise<FeatureCollection | null> | null = null
+
+const loadBasemap = () => {
+  if (!basemapRequest) {
+    basemapRequest = fetchJSON<FeatureCollection>(`${API_BASE_URL}/basemap.geojson`).catch(() => {
+      // Try again on the next mount
+      basemapRequest = null
+      return null
+    })
+  }
+  return basemapRequest
+}
+
+const useBasemap = () => {
+  const [basemap, setBasemap] = useState<FeatureCollection | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadBasemap().then((result) => {
+      if (!cancelled) setBasemap(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return basemap
+}
+
+const useAggregates = (viewport: Viewport | null, query: string) => {
+  const [groups, setGroups] = useState<AggregateGroup[]>([])
+
+  useEffect(() => {
+    if (!viewport) return
+    const { west, south, east, north } = viewport.bbox
+    const params = new URLSearchParams(query)
+    params.set('groupBy', 'quadkey')
+    params.set('zoom', String(aggregationZoom(viewport.zoom)))
+    params.set('bbox', [west, south, east, north].map((value) => value.toFixed(6)).join(','))
+
+    let cancelled = false
+    fetchJSON<AggregateGroup[]>(`${API_BASE_URL}/aggregates?${params}`)
+      .then((result) => {
+        if (!cancelled) setGroups(result)
+      })
+      .catch(() => {
+        if (!cancelled) setGroups([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [viewport, query])
+
+  return groups
+}
+
+const AggregateCell = ({ group, metric, onSelect }: { group: AggregateGroup, metric: MapMetric, onSelect: (group: AggregateGroup) => void }) => {
+  const map = useMap()
+  const color = metricColor(metric, group[METRIC_FIELDS[metric]])
+  const isTile = group.key.length >= MAX_AGGREGATION_ZOOM
+
+  return (
+    <Rectangle
+      bounds={toBounds(group.bbox)}
+      pathOptions={{ color, fillColor: color, fillOpacity: 0.6, weight: 1 }}
+      eventHandlers={{
+        click: () => {
+          // Drill into the cell until individual tiles are reached, then open the tile
+          if (isTile) {
+            onSelect(group)
+          } else {
+            map.fitBounds(toBounds(group.bbox))
+          }
+        },
+      }}
+    >
+      <Tooltip sticky>
+        <SpeedDetails title={isTile ? `Tile ${group.key}` : `Area ${group.key}`} data={group}>
+          <p>Tiles: {group.tiles.toLocaleString()}</p>
+        </SpeedDetails>
+      </Tooltip>
+    </Rectangle>
+  )
+}
+
+export default function SpeedMap({ metric, query, onSelect }: { metric: MapMetric, query: string, onSelect: (group: AggregateGroup) => void }) {
+  const [viewport, setViewport] = useState<Viewport | null>(null)
+  const basemap = useBasemap()
+  const groups = useAggregates(viewport, query)
+
+  return (
+    <MapContainer center={[20, 0]} zoom={2} minZoom={2} worldCopyJump className="h-full w-full rounded-md">
+      {BASEMAP_TILE_URL && <TileLayer url={BASEMAP_TILE_URL} />}
+      {basemap && (
+        <GeoJSON
+          data={basemap}
+          interactive={false}
+          style={{ color: '#6b7280', weight: 1, fillColor: '#e5e7eb', fillOpacity: 0.4 }}
+        />
+      )}
+      <ViewportWatcher onChange={setViewport} />
+      {groups.map((group) => (
+        <AggregateCell key={group.key} group={group} metric={metric} onSelect={onSelect} />
+      ))}
+    </MapContainer>
+  )
+}
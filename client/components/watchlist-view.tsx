@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Trash2 } from 'lucide-react'
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { RegionSearch } from "@/components/region-search"
+import { useWatchlist } from "@/hooks/use-watchlist"
+import {
+  AlertCondition, AlertInput, AlertMetric, AlertStatistic, API_BASE_URL, fetchJSON,
+  NotificationChannel, RegionDetail, SpeedAlert,
+} from "@/lib/api"
+
+const SELECT_CLASS = "h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm"
+
+const UNITS: Record<AlertMetric, string> = { download: 'Mbps', upload: 'Mbps', latency: 'ms' }
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  decrease_percent: 'falls by more than (%)',
+  increase_percent: 'rises by more than (%)',
+  below: 'is below',
+  above: 'is above',
+}
+
+// Latest fixed-network detail of every watched region, keyed by id
+const useRegionDetails = (ids: string[]) => {
+  const [details, setDetails] = useState<Map<string, RegionDetail>>(new Map())
+  const key = ids.join(',')
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(key.split(',').filter(Boolean).map((id) =>
+      fetchJSON<RegionDetail>(`${API_BASE_URL}/regions/${encodeURIComponent(id)}?type=fixed`).catch(() => null)
+    )).then((results) => {
+      if (cancelled) return
+      setDetails(new Map(results.filter((detail): detail is RegionDetail => detail !== null).map((detail) => [detail.id, detail])))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  return details
+}
+
+const useChannels = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+
+  useEffect(() => {
+    fetchJSON<NotificationChannel[]>(`${API_BASE_URL}/notification-channels`)
+      .then(setChannels)
+      .catch(() => setChannels([]))
+  }, [])
+
+  return channels
+}
+
+const describeAlert = (alert: SpeedAlert, name: string) => {
+  const threshold = alert.condition.endsWith('_percent') ? `${alert.threshold}%` : `${alert.threshold} ${UNITS[alert.metric]}`
+  const condition = CONDITION_LABELS[alert.condition].replace(' (%)', '')
+  return `${alert.statistic === 'median' ? 'Median' : 'Mean'} ${alert.type} ${alert.metric} in ${name} ${condition} ${threshold}`
+}
+
+const AlertStatus = ({ alert }: { alert: SpeedAlert }) => {
+  const evaluation = alert.lastEvaluation
+  if (!evaluation) {
+    return <Badge variant="outline">Not evaluated</Badge>
+  }
+  const value = evaluation.value === null ? 'no data' : `${evaluation.value.toFixed(2)} ${UNITS[alert.metric]}`
+  const change = evaluation.change === null ? '' : ` (${evaluation.change > 0 ? '+' : ''}${evaluation.change.toFixed(1)}%)`
+  return (
+    <span className="inline-flex items-center gap-2">
+      <Badge variant={evaluation.triggered ? 'destructive' : 'secondary'}>{evaluation.triggered ? 'Triggered' : 'OK'}</Badge>
+      <span className="text-sm text-gray-500 dark:text-gray-400">{evaluation.period}: {value}{change}</span>
+    </span>
+  )
+}
+
+const AlertForm = ({ regions, names, channels, onAdd }: {
+  regions: string[]
+  names: Map<string, string>
+  channels: NotificationChannel[]
+  onAdd: (alert: AlertInput) => void
+}) => {
+  const [region, setRegion] = useState('')
+  const [metric, setMetric] = useState<AlertMetric>('download')
+  const [statistic, setStatistic] = useState<AlertStatistic>('median')
+  const [condition, setCondition] = useState<AlertCondition>('decrease_percent')
+  const [threshold, setThreshold] = useState('15')
+  const [selected, setSelected] = useState<string[]>([])
+  const target = region || regions[0]
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={(event) => {
+        event.preventDefault()
+        const value = Number(threshold)
+        if (!target || !(value > 0)) return
+        onAdd({ region: target, type: 'fixed', metric, statistic, condition, threshold: value, channels: selected })
+      }}
+    >
+      <select aria-label="Region" value={target} onChange={(event) => setRegion(event.target.value)} className={SELECT_CLASS}>
+        {regions.map((id) => <option key={id} value={id}>{names.get(id) ?? id}</option>)}
+      </select>
+      <select aria-label="Statistic" value={statistic} onChange={(event) => setStatistic(event.target.value as AlertStatistic)} className={SELECT_CLASS}>
+        <option value="median">Median</option>
+        <option value="mean">Mean</option>
+      </select>
+      <select aria-label="Metric" value={metric} onChange={(event) => setMetric(event.target.value as AlertMetric)} className={SELECT_CLASS}>
+        <option value="download">download</option>
+        <option value="upload">upload</option>
+        <option value="latency">latency</option>
+      </select>
+      <select aria-label="Condition" value={condition} onChange={(event) => setCondition(event.target.value as AlertCondition)} className={SELECT_CLASS}>
+        {(Object.keys(CONDITION_LABELS) as AlertCondition[]).map((option) => (
+          <option key={option} value={option}>{CONDITION_LABELS[option]}</option>
+        ))}
+      </select>
+      <input
+        aria-label="Threshold"
+        type="number"
+        min="0"
+        step="any"
+        value={threshold}
+        onChange={(event) => setThreshold(event.target.value)}
+        className={`${SELECT_CLASS} w-24`}
+      />
+      {channels.map((channel) => (
+        <label key={channel.name} className="inline-flex items-center gap-1 text-sm">
+          <input
+            type="checkbox"
+            checked={selected.includes(channel.name)}
+            onChange={(event) => setSelected(event.target.checked
+              ? [...selected, channel.name]
+              : selected.filter((name) => name !== channel.name))}
+          />
+          {channel.name} ({channel.provider})
+        </label>
+      ))}
+      <Button type="submit" size="sm">Add alert</Button>
+    </form>
+  )
+}
+
+export function WatchlistView() {
+  const { watchlist, loading, error, rename, addRegion, removeRegion, addAlert, removeAlert } = useWatchlist()
+  const [name, setName] = useState<string | null>(null)
+  const regions = watchlist?.regions ?? []
+  const details = useRegionDetails(regions)
+  const channels = useChannels()
+  const names = new Map(regions.map((id) => [id, details.get(id)?.name ?? id]))
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Watchlist</h1>
+          <Link href="/" className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Back to rankings</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-8 space-y-8">
+        {error && <p className="text-red-500 dark:text-red-400">Failed to save or load the watchlist: {error}</p>}
+        {loading ? (
+          <p>Loading...</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>
+                    <input
+                      aria-label="Watchlist name"
+                      value={name ?? watchlist?.name ?? 'My watchlist'}
+                      onChange={(event) => setName(event.target.value)}
+                      onBlur={() => {
+                        if (name && name.trim() && name !== watchlist?.name) rename(name.trim())
+                        setName(null)
+                      }}
+                      className="bg-transparent border-b border-transparent focus:border-gray-400 outline-none"
+                    />
+                  </CardTitle>
+                  <CardDescription>Latest fixed-network averages of the regions you follow</CardDescription>
+                </div>
+                <RegionSearch onSelect={(result) => addRegion(result.id)} />
+              </CardHeader>
+              <CardContent>
+                {regions.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Search for a country, region or tile to start watching it</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Region</TableHead>
+                        <TableHead className="text-right">Download (Mbps)</TableHead>
+                        <TableHead className="text-right">Upload (Mbps)</TableHead>
+                        <TableHead className="text-right">Latency (ms)</TableHead>
+                        <TableHead className="w-12"><span className="sr-only">Remove</span></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {regions.map((id) => {
+                        const summary = details.get(id)?.summary
+                        return (
+                          <TableRow key={id}>
+                            <TableCell>
+                              <Link href={`/region/${encodeURIComponent(id)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                {names.get(id)}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right">{summary ? summary.avgDownloadSpeed.toFixed(2) : '–'}</TableCell>
+                            <TableCell className="text-right">{summary ? summary.avgUploadSpeed.toFixed(2) : '–'}</TableCell>
+                            <TableCell className="text-right">{summary ? summary.avgLatency.toFixed(2) : '–'}</TableCell>
+                            <TableCell>
+                              <Button variant="ghost" size="icon" onClick={() => removeRegion(id)} aria-label={`Stop watching ${names.get(id)}`}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Alerts</CardTitle>
+                <CardDescription>
+                  Checked against the latest quarter whenever new data is loaded. Percent changes compare with the previous quarter. Alerts fire once per quarter.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(watchlist?.alerts ?? []).length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No alerts yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {watchlist?.alerts.map((alert) => (
+                      <li key={alert.id} className="flex flex-wrap items-center justify-between gap-2">
+                        <span>
+                          {describeAlert(alert, names.get(alert.region) ?? alert.region)}
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {alert.channels.length > 0 ? ` → ${alert.channels.join(', ')}` : ' (dashboard only)'}
+                          </span>
+                        </span>
+                        <span className="inline-flex items-center gap-2">
+                          <AlertStatus alert={alert} />
+                          <Button variant="ghost" size="icon" onClick={() => removeAlert(alert.id)} aria-label="Delete alert">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {regions.length > 0 && <AlertForm regions={regions} names={names} channels={channels} onAdd={addAlert} />}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
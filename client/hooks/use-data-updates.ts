@@ -0,0 +1,28 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { API_BASE_URL, LoadState } from "@/lib/api"
+
+// Subscribe to the server's load state stream. Returns whether the stream is
+// connected, so callers can fall back to polling while it is not.
+export function useDataUpdates(onStateChange: (state: LoadState) => void) {
+  const [connected, setConnected] = useState(false)
+  // Keep the latest callback without reopening the stream when it changes
+  const callback = useRef(onStateChange)
+  callback.current = onStateChange
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return
+
+    const source = new EventSource(`${API_BASE_URL}/events`)
+    source.onopen = () => setConnected(true)
+    // EventSource reconnects by itself; poll until it does
+    source.onerror = () => setConnected(false)
+    source.addEventListener('state', (event) => {
+      callback.current(JSON.parse((event as MessageEvent).data))
+    })
+    return () => source.close()
+  }, [])
+
+  return connected
+}
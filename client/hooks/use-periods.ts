@@ -0,0 +1,16 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { API_BASE_URL, fetchJSON, Period } from "@/lib/api"
+
+export function usePeriods() {
+  const [periods, setPeriods] = useState<Period[]>([])
+
+  useEffect(() => {
+    fetchJSON<Period[]>(`${API_BASE_URL}/periods`)
+      .then(setPeriods)
+      .catch(() => setPeriods([]))
+  }, [])
+
+  return periods
+}
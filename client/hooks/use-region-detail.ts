@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { API_BASE_URL, fetchJSON, Period, RegionDetail } from "@/lib/api"
+
+// Fixed-network detail of a region for a period, or the latest period when none is given
+export function useRegionDetail(id: string, period: Period | null, initial: RegionDetail | null = null) {
+  const [detail, setDetail] = useState<RegionDetail | null>(initial)
+  const [error, setError] = useState<string | null>(null)
+  const year = period?.year
+  const quarter = period?.quarter
+  const skipInitialFetch = initial !== null && period === null
+
+  useEffect(() => {
+    if (skipInitialFetch) return
+    let cancelled = false
+    const params = new URLSearchParams({ type: 'fixed' })
+    if (year !== undefined && quarter !== undefined) {
+      params.set('year', String(year))
+      params.set('quarter', String(quarter))
+    }
+    fetchJSON<RegionDetail>(`${API_BASE_URL}/regions/${encodeURIComponent(id)}?${params}`)
+      .then((result) => {
+        if (cancelled) return
+        setDetail(result)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setDetail(null)
+        setError(err instanceof Error ? err.message : 'An unknown error occurred')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [id, year, quarter, skipInitialFetch])
+
+  return { detail, error }
+}
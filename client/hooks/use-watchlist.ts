@@ -0,0 +1,81 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { AlertInput, API_BASE_URL, sendJSON, Watchlist, WatchlistInput } from "@/lib/api"
+
+// The server addresses watchlists by a random id, remembered in this browser
+const STORAGE_KEY = 'watchlist-id'
+const DEFAULT_NAME = 'My watchlist'
+
+const toInput = (watchlist: Watchlist | null): WatchlistInput => ({
+  name: watchlist?.name ?? DEFAULT_NAME,
+  regions: watchlist?.regions ?? [],
+  alerts: (watchlist?.alerts ?? []).map(({ id, region, type, metric, statistic, condition, threshold, channels }) => (
+    { id, region, type, metric, statistic, condition, threshold, channels }
+  )),
+})
+
+export function useWatchlist() {
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const id = localStorage.getItem(STORAGE_KEY)
+    if (!id) {
+      setLoading(false)
+      return
+    }
+    fetch(`${API_BASE_URL}/watchlists/${encodeURIComponent(id)}`)
+      .then(async (response) => {
+        // Deleted on the server, e.g. after its file was reset
+        if (response.status === 404) {
+          localStorage.removeItem(STORAGE_KEY)
+          return null
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        return response.json()
+      })
+      .then(setWatchlist)
+      .catch((err) => setError(err instanceof Error ? err.message : 'An unknown error occurred'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // Create the watchlist on first save, replace it afterwards
+  const save = useCallback(async (changes: Partial<WatchlistInput>) => {
+    const input = { ...toInput(watchlist), ...changes }
+    try {
+      const saved = watchlist
+        ? await sendJSON<Watchlist>(`${API_BASE_URL}/watchlists/${encodeURIComponent(watchlist.id)}`, 'PUT', input)
+        : await sendJSON<Watchlist>(`${API_BASE_URL}/watchlists`, 'POST', input)
+      if (saved) {
+        localStorage.setItem(STORAGE_KEY, saved.id)
+        setWatchlist(saved)
+      }
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+    }
+  }, [watchlist])
+
+  const regions = watchlist?.regions ?? []
+  const alerts = toInput(watchlist).alerts
+
+  return {
+    watchlist,
+    loading,
+    error,
+    isWatched: (id: string) => regions.includes(id),
+    rename: (name: string) => save({ name }),
+    addRegion: (id: string) => regions.includes(id) ? Promise.resolve() : save({ regions: [...regions, id] }),
+    // Alerts on a region go with it
+    removeRegion: (id: string) => save({
+      regions: regions.filter((region) => region !== id),
+      alerts: alerts.filter((alert) => alert.region !== id),
+    }),
+    addAlert: (alert: AlertInput) => save({ alerts: [...alerts, alert] }),
+    removeAlert: (id: string) => save({ alerts: alerts.filter((alert) => alert.id !== id) }),
+  }
+}
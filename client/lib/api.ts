@@ -0,0 +1,317 @@
+export const API_BASE_URL = 'http://localhost:3001/api';
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface SpeedMetrics {
+  avgDownloadSpeed: number;
+  avgUploadSpeed: number;
+  avgLatency: number;
+  tests: number;
+  devices: number;
+}
+
+export interface SpeedData extends SpeedMetrics {
+  quadkey: string;
+  tile: string;
+  zoom: number;
+  bbox: BoundingBox;
+  centroid: { lat: number; lon: number };
+  countryCode: string | null;
+  countryName: string | null;
+  region: string | null;
+  type: 'fixed' | 'mobile';
+  year: number;
+  quarter: number;
+}
+
+export interface AggregateGroup extends SpeedMetrics {
+  key: string;
+  name: string;
+  countryCode: string | null;
+  bbox: BoundingBox;
+  tiles: number;
+}
+
+export type RankingMethod = 'raw' | 'adjusted';
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface RankedSpeedData extends SpeedData {
+  rank: number;
+  previousRank: number | null;
+  score: number;
+  interval: ConfidenceInterval | null;
+}
+
+export interface Period {
+  year: number;
+  quarter: number;
+}
+
+export interface Rankings {
+  period: Period | null;
+  previousPeriod: Period | null;
+  method: RankingMethod;
+  data: RankedSpeedData[];
+}
+
+export interface TrendPoint extends Period {
+  avgDownloadSpeed: number;
+  avgUploadSpeed: number;
+  avgLatency: number;
+}
+
+export interface Trend {
+  quadkey: string;
+  series: TrendPoint[];
+}
+
+export interface Percentiles {
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+export interface HistogramBucket {
+  min: number;
+  max: number;
+  tiles: number;
+  tests: number;
+}
+
+export interface MetricDistribution {
+  mean: number;
+  percentiles: Percentiles;
+  histogram: HistogramBucket[];
+}
+
+export interface SpeedStats {
+  tiles: number;
+  tests: number;
+  devices: number;
+  download: MetricDistribution | null;
+  upload: MetricDistribution | null;
+  latency: MetricDistribution | null;
+}
+
+export type RegionKind = 'tile' | 'country' | 'region';
+
+export interface SpeedSummary extends SpeedMetrics {
+  tiles: number;
+}
+
+// Percent of the period's tiles each region beats
+export interface PercentilePosition {
+  download: number;
+  upload: number;
+  latency: number;
+}
+
+export interface RegionComparison {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  summary: SpeedSummary | null;
+  position: PercentilePosition | null;
+  trend: TrendPoint[];
+}
+
+export interface Comparison {
+  period: Period;
+  type: 'fixed' | 'mobile';
+  regions: RegionComparison[];
+}
+
+export interface SearchResult {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  tiles: number;
+}
+
+export interface RegionRank {
+  position: number;
+  total: number;
+}
+
+export interface NeighbourTile {
+  id: string;
+  quadkey: string;
+  summary: SpeedSummary;
+}
+
+export interface CountryComparison {
+  countryCode: string;
+  name: string;
+  summary: SpeedSummary;
+  // Percent above or below the country average
+  difference: { download: number; upload: number; latency: number } | null;
+}
+
+export interface RegionDetail {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  period: Period;
+  type: 'fixed' | 'mobile';
+  summary: AggregateGroup | null;
+  rank: RegionRank | null;
+  position: PercentilePosition | null;
+  trend: TrendPoint[];
+  neighbours: NeighbourTile[];
+  country: CountryComparison | null;
+}
+
+export interface Coverage {
+  tiles: number;
+  tests: number;
+  devices: number;
+  countries: number;
+}
+
+export interface PeriodCoverage extends Period {
+  fixed: Coverage;
+  mobile: Coverage;
+}
+
+export interface FieldMapping {
+  column: string;
+  field: string;
+  sourceUnit: string;
+  unit: string;
+  divisor: number;
+}
+
+export interface DatasetMetadata {
+  dataSource: string;
+  status: 'loading' | 'ready' | 'failed';
+  loadedAt: string | null;
+  records: number;
+  rejected: number;
+  files: { source: string; rows: number; accepted: number; rejected: number }[];
+  firstPeriod: Period | null;
+  lastPeriod: Period | null;
+  periods: PeriodCoverage[];
+  coverage: { fixed: Coverage; mobile: Coverage };
+  fields: FieldMapping[];
+  validation: { maxLatencyMs: number };
+}
+
+export interface LoadState {
+  status: 'loading' | 'ready' | 'failed';
+  records: number;
+  periods: number;
+  sources: string[];
+  loadedAt: string | null;
+  error: string | null;
+}
+
+export type AlertMetric = 'download' | 'upload' | 'latency';
+export type AlertStatistic = 'median' | 'mean';
+export type AlertCondition = 'decrease_percent' | 'increase_percent' | 'below' | 'above';
+
+export interface AlertEvaluation {
+  period: string;
+  value: number | null;
+  previousValue: number | null;
+  change: number | null;
+  triggered: boolean;
+  evaluatedAt: string;
+}
+
+export interface SpeedAlert {
+  id: string;
+  region: string;
+  type: 'fixed' | 'mobile';
+  metric: AlertMetric;
+  statistic: AlertStatistic;
+  condition: AlertCondition;
+  threshold: number;
+  channels: string[];
+  lastEvaluation: AlertEvaluation | null;
+  lastTriggeredPeriod: string | null;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  regions: string[];
+  alerts: SpeedAlert[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// New alerts have no id; existing ones are sent back with theirs
+export type AlertInput = Pick<SpeedAlert, 'region' | 'type' | 'metric' | 'statistic' | 'condition' | 'threshold' | 'channels'> & { id?: string };
+
+export interface WatchlistInput {
+  name: string;
+  regions: string[];
+  alerts: AlertInput[];
+}
+
+export interface NotificationChannel {
+  name: string;
+  provider: string;
+}
+
+export const formatPeriod = ({ year, quarter }: Period) => `Q${quarter} ${year}`
+
+// Human-readable place name, falling back to the quadkey for tiles outside any known boundary
+export const getRegionName = (item: SpeedData) => {
+  if (!item.countryName) {
+    return item.quadkey
+  }
+  return item.region ? `${item.region}, ${item.countryName}` : item.countryName
+}
+
+export const fetchJSON = async <T>(url: string): Promise<T> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error('Error fetching data:', error);
+    throw error;
+  }
+}
+
+// Conditional GET: resolves to null when the server answers 304 Not Modified for the given ETag
+export const fetchJSONIfChanged = async <T>(url: string, etag: string | null): Promise<{ data: T, etag: string | null } | null> => {
+  const response = await fetch(url, { headers: etag ? { 'If-None-Match': etag } : {} });
+  if (response.status === 304) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return { data: await response.json(), etag: response.headers.get('ETag') };
+}
+
+// POST, PUT or DELETE a JSON body; resolves to null for empty responses
+export const sendJSON = async <T>(url: string, method: 'POST' | 'PUT' | 'DELETE', body?: unknown): Promise<T | null> => {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.status === 204 ? null : response.json();
+}
@@ -0,0 +1,35 @@
+export type MapMetric = 'download' | 'upload' | 'latency'
+
+export const METRIC_FIELDS: Record<MapMetric, 'avgDownloadSpeed' | 'avgUploadSpeed' | 'avgLatency'> = {
+  download: 'avgDownloadSpeed',
+  upload: 'avgUploadSpeed',
+  latency: 'avgLatency',
+}
+
+// Colour stops from worst to best; latency thresholds are inverted since lower is better
+const COLORS = ['#b91c1c', '#ea580c', '#eab308', '#84cc16', '#16a34a', '#15803d']
+const THRESHOLDS: Record<MapMetric, number[]> = {
+  download: [10, 25, 50, 100, 250],
+  upload: [5, 10, 25, 50, 100],
+  latency: [150, 100, 60, 40, 20],
+}
+
+export const metricColor = (metric: MapMetric, value: number) => {
+  const thresholds = THRESHOLDS[metric]
+  const index = metric === 'latency'
+    ? thresholds.filter((threshold) => value <= threshold).length
+    : thresholds.filter((threshold) => value >= threshold).length
+  return COLORS[index]
+}
+
+export const metricLegend = (metric: MapMetric) => {
+  const thresholds = THRESHOLDS[metric]
+  const unit = metric === 'latency' ? 'ms' : 'Mbps'
+  const comparator = metric === 'latency' ? '>' : '<'
+  return COLORS.map((color, index) => ({
+    color,
+    label: index === 0
+      ? `${comparator} ${thresholds[0]} ${unit}`
+      : `${metric === 'latency' ? '≤' : '≥'} ${thresholds[index - 1]} ${unit}`,
+  }))
+}
@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation"
+import { API_BASE_URL } from "@/lib/api"
+
+// Server-rendered pages call the API from the Next server's address, so
+// without a key every visitor would share that address's anonymous rate
+// limit. API_KEY holds a read-scoped key (`npm run keys -- create <name> read`
+// on the API server); it is only read here and never reaches the browser.
+const API_KEY = process.env.API_KEY
+
+const request = async (path: string): Promise<Response | null> => {
+  try {
+    return await fetch(`${API_BASE_URL}${path}`, {
+      cache: 'no-store',
+      headers: API_KEY ? { 'X-API-Key': API_KEY } : {},
+    })
+  } catch {
+    return null
+  }
+}
+
+// Resolves to null when the request fails so pages can still render
+export const fetchServerJSON = async <T>(path: string): Promise<T | null> => {
+  const response = await request(path)
+  return response?.ok ? response.json() : null
+}
+
+// For pages about one resource: ids the API rejects or doesn't know render the
+// not-found page, other failures resolve to null like fetchServerJSON
+export const fetchServerResource = async <T>(path: string): Promise<T | null> => {
+  const response = await request(path)
+  if (response?.status === 400 || response?.status === 404) notFound()
+  return response?.ok ? response.json() : null
+}
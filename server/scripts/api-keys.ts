@@ -0,0 +1,65 @@
+import { createApiKeyStore, parseApiKeyInput } from "../src/api-keys";
+import { API_KEYS_FILE } from "../src/config";
+import { ValidationError } from "../src/errors";
+
+// Manage API keys in the server's key file; a running server picks changes up
+// within a second.
+//
+//   npm run keys -- list
+//   npm run keys -- create <name> <scopes> [rateLimit]   e.g. create reports read,export
+//   npm run keys -- revoke <id>
+const usage = `Usage:
+  npm run keys -- list
+  npm run keys -- create <name> <read,export,admin> [requests per window]
+  npm run keys -- revoke <id>`;
+
+const [command, ...args] = process.argv.slice(2);
+const store = createApiKeyStore(API_KEYS_FILE);
+
+try {
+  switch (command) {
+    case "list":
+      console.table(
+        store
+          .list()
+          .map(({ id, name, prefix, scopes, rateLimit, revokedAt }) => ({
+            id,
+            name,
+            prefix,
+            scopes: scopes.join(","),
+            rateLimit: rateLimit ?? "default",
+            revoked: revokedAt ?? "",
+          }))
+      );
+      break;
+    case "create": {
+      const [name, scopes, rateLimit] = args;
+      const { key, secret } = store.create(
+        parseApiKeyInput({
+          name,
+          scopes: scopes?.split(","),
+          rateLimit: rateLimit === undefined ? null : Number(rateLimit),
+        })
+      );
+      console.log(`Created key ${key.id} (${key.scopes.join(", ")})`);
+      console.log(`Key: ${secret}`);
+      console.log("Store it now; it cannot be shown again.");
+      break;
+    }
+    case "revoke": {
+      const key = args[0] ? store.revoke(args[0]) : undefined;
+      if (!key) {
+        console.error(`No API key with id ${args[0]}`);
+        process.exit(1);
+      }
+      console.log(`Revoked key ${key.id} (${key.name})`);
+      break;
+    }
+    default:
+      console.error(usage);
+      process.exit(1);
+  }
+} catch (error) {
+  console.error(error instanceof ValidationError ? error.message : error);
+  process.exit(1);
+}
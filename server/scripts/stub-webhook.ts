@@ -0,0 +1,28 @@
+import http from "http";
+
+// Logs every request it receives and answers 200, so notification channels can
+// be pointed at it locally, e.g. "url": "http://localhost:4000/slack" or
+// "apiUrl": "http://localhost:4000" for Telegram
+const port = Number(process.env.STUB_PORT) || 4000;
+
+http
+  .createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      console.log(`${req.method} ${req.url}`);
+      for (const [name, value] of Object.entries(req.headers)) {
+        console.log(`  ${name}: ${value}`);
+      }
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ ok: true }));
+    });
+  })
+  .listen(port, () => {
+    console.log(`Stub webhook server listening on port ${port}`);
+  });
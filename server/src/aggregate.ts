@@ -0,0 +1,139 @@
+import { BoundingBox } from "./quadkey";
+import { SpeedData } from "./types";
+
+export const GROUP_BY_OPTIONS = ["country", "region", "quadkey"] as const;
+export type GroupBy = (typeof GROUP_BY_OPTIONS)[number];
+
+export interface SpeedSummary {
+  avgDownloadSpeed: number;
+  avgUploadSpeed: number;
+  avgLatency: number;
+  tests: number;
+  devices: number;
+  tiles: number;
+}
+
+export interface AggregateGroup extends SpeedSummary {
+  key: string;
+  name: string;
+  countryCode: string | null;
+  // Extent of the tiles in the group, used by map clients to draw and zoom to it
+  bbox: BoundingBox;
+}
+
+interface Accumulator {
+  weightedDownload: number;
+  weightedUpload: number;
+  weightedLatency: number;
+  tests: number;
+  devices: number;
+  tiles: number;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  weightedDownload: 0,
+  weightedUpload: 0,
+  weightedLatency: 0,
+  tests: 0,
+  devices: 0,
+  tiles: 0,
+});
+
+const accumulate = (accumulator: Accumulator, item: SpeedData) => {
+  accumulator.weightedDownload += item.avgDownloadSpeed * item.tests;
+  accumulator.weightedUpload += item.avgUploadSpeed * item.tests;
+  accumulator.weightedLatency += item.avgLatency * item.tests;
+  accumulator.tests += item.tests;
+  accumulator.devices += item.devices;
+  accumulator.tiles += 1;
+};
+
+const toSummary = (accumulator: Accumulator): SpeedSummary => ({
+  avgDownloadSpeed: accumulator.weightedDownload / accumulator.tests,
+  avgUploadSpeed: accumulator.weightedUpload / accumulator.tests,
+  avgLatency: accumulator.weightedLatency / accumulator.tests,
+  tests: accumulator.tests,
+  devices: accumulator.devices,
+  tiles: accumulator.tiles,
+});
+
+// Test-count-weighted summary of a set of records, or null if none have tests
+export function summarizeSpeedData(data: SpeedData[]): SpeedSummary | null {
+  const accumulator = emptyAccumulator();
+  data.forEach((item) => accumulate(accumulator, item));
+  return accumulator.tests > 0 ? toSummary(accumulator) : null;
+}
+
+// Resolve the group a record belongs to, or null when it cannot be grouped
+// (e.g. tiles outside any known country when grouping by country)
+const groupKey = (
+  item: SpeedData,
+  groupBy: GroupBy,
+  zoom: number
+): { key: string; name: string } | null => {
+  switch (groupBy) {
+    case "country":
+      if (!item.countryCode || !item.countryName) return null;
+      return { key: item.countryCode, name: item.countryName };
+    case "region":
+      if (!item.countryCode || !item.region) return null;
+      return {
+        key: `${item.countryCode}:${item.region}`,
+        name: `${item.region}, ${item.countryName}`,
+      };
+    case "quadkey": {
+      const prefix = item.quadkey.slice(0, zoom);
+      return { key: prefix, name: prefix };
+    }
+  }
+};
+
+// Group records and compute test-count-weighted averages per group, so tiles
+// with many tests count for more than tiles with a handful
+export function aggregateSpeedData(
+  data: SpeedData[],
+  groupBy: GroupBy,
+  zoom: number
+): AggregateGroup[] {
+  const groups = new Map<
+    string,
+    {
+      name: string;
+      countryCode: string | null;
+      bbox: BoundingBox;
+      accumulator: Accumulator;
+    }
+  >();
+
+  for (const item of data) {
+    const group = groupKey(item, groupBy, zoom);
+    if (!group) continue;
+
+    let entry = groups.get(group.key);
+    if (!entry) {
+      entry = {
+        name: group.name,
+        countryCode: groupBy === "quadkey" ? null : item.countryCode,
+        bbox: { ...item.bbox },
+        accumulator: emptyAccumulator(),
+      };
+      groups.set(group.key, entry);
+    }
+    entry.bbox.west = Math.min(entry.bbox.west, item.bbox.west);
+    entry.bbox.south = Math.min(entry.bbox.south, item.bbox.south);
+    entry.bbox.east = Math.max(entry.bbox.east, item.bbox.east);
+    entry.bbox.north = Math.max(entry.bbox.north, item.bbox.north);
+    accumulate(entry.accumulator, item);
+  }
+
+  return [...groups.entries()]
+    .filter(([, entry]) => entry.accumulator.tests > 0)
+    .map(([key, entry]) => ({
+      key,
+      name: entry.name,
+      countryCode: entry.countryCode,
+      bbox: entry.bbox,
+      ...toSummary(entry.accumulator),
+    }))
+    .sort((a, b) => b.avgDownloadSpeed - a.avgDownloadSpeed);
+}
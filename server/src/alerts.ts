@@ -0,0 +1,176 @@
+import { Dataset } from "./dataset";
+import { logger } from "./logger";
+import { Notifier } from "./notifications";
+import { Notification } from "./notifications/message";
+import { periodKey, previousPeriod } from "./period";
+import { matchesRegion, parseRegionId, regionName } from "./regions";
+import { computeSpeedStats } from "./stats";
+import { getDataset, onLoadStateChange } from "./store";
+import {
+  AlertEvaluation,
+  SpeedAlert,
+  Watchlist,
+  WatchlistStore,
+} from "./watchlists";
+
+const UNITS = { download: "Mbps", upload: "Mbps", latency: "ms" };
+
+const CONDITION_LABELS = {
+  decrease_percent: "fell by more than",
+  increase_percent: "rose by more than",
+  below: "is below",
+  above: "is above",
+};
+
+// The alert's statistic for its region in one quarter, null without data
+const alertValue = (
+  dataset: Dataset,
+  alert: SpeedAlert,
+  key: string
+): number | null => {
+  const ref = parseRegionId(alert.region);
+  if (!ref) return null;
+  const matches = matchesRegion(ref);
+  const stats = computeSpeedStats(
+    (dataset.byPeriod.get(key) ?? []).filter(
+      (item) => item.type === alert.type && matches(item)
+    ),
+    1
+  )[alert.metric];
+  if (!stats) return null;
+  return alert.statistic === "median" ? stats.percentiles.median : stats.mean;
+};
+
+const isTriggered = (
+  alert: SpeedAlert,
+  value: number | null,
+  change: number | null
+) => {
+  switch (alert.condition) {
+    case "decrease_percent":
+      return change !== null && change <= -alert.threshold;
+    case "increase_percent":
+      return change !== null && change >= alert.threshold;
+    case "below":
+      return value !== null && value < alert.threshold;
+    case "above":
+      return value !== null && value > alert.threshold;
+  }
+};
+
+// Compare the latest quarter with the one before it
+export function evaluateAlert(
+  dataset: Dataset,
+  alert: SpeedAlert
+): AlertEvaluation | null {
+  const latest = dataset.periods[dataset.periods.length - 1];
+  if (!latest) return null;
+  const value = alertValue(dataset, alert, periodKey(latest));
+  const previousValue = alertValue(
+    dataset,
+    alert,
+    periodKey(previousPeriod(latest))
+  );
+  const change =
+    value !== null && previousValue
+      ? ((value - previousValue) / previousValue) * 100
+      : null;
+  return {
+    period: periodKey(latest),
+    value,
+    previousValue,
+    change,
+    triggered: isTriggered(alert, value, change),
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+const alertNotification = (
+  dataset: Dataset,
+  watchlist: Watchlist,
+  alert: SpeedAlert,
+  evaluation: AlertEvaluation
+): Notification => {
+  const ref = parseRegionId(alert.region);
+  const sample = ref && dataset.records.find(matchesRegion(ref));
+  const name = ref && sample ? regionName(ref, sample) : alert.region;
+  const unit = UNITS[alert.metric];
+  const threshold = alert.condition.endsWith("_percent")
+    ? `${alert.threshold}%`
+    : `${alert.threshold} ${unit}`;
+  const format = (value: number | null) =>
+    value === null ? "no data" : `${value.toFixed(2)} ${unit}`;
+  return {
+    trigger: "watchlist_alert",
+    ruleId: `watchlist:${watchlist.id}:${alert.id}`,
+    title: `${watchlist.name}: ${name}`,
+    text: `The ${alert.statistic} ${alert.type} ${alert.metric} of ${name} ${CONDITION_LABELS[alert.condition]} ${threshold} in ${evaluation.period}.`,
+    fields: [
+      { label: evaluation.period, value: format(evaluation.value) },
+      {
+        label: "Previous quarter",
+        value: format(evaluation.previousValue),
+      },
+      ...(evaluation.change !== null
+        ? [{ label: "Change", value: `${evaluation.change.toFixed(1)}%` }]
+        : []),
+    ],
+    topRegions: [],
+    variables: {
+      watchlist: watchlist.name,
+      region: alert.region,
+      name,
+      period: evaluation.period,
+    },
+  };
+};
+
+// Evaluate a watchlist's alerts against a dataset, delivering those that
+// trigger for a quarter they have not triggered for yet. Returns whether any
+// evaluation changed.
+export function evaluateWatchlist(
+  dataset: Dataset,
+  watchlist: Watchlist,
+  notifier: Notifier
+): boolean {
+  let changed = false;
+  for (const alert of watchlist.alerts) {
+    const evaluation = evaluateAlert(dataset, alert);
+    if (!evaluation) continue;
+    alert.lastEvaluation = evaluation;
+    changed = true;
+    if (
+      !evaluation.triggered ||
+      alert.lastTriggeredPeriod === evaluation.period
+    ) {
+      continue;
+    }
+    alert.lastTriggeredPeriod = evaluation.period;
+    if (alert.channels.length > 0) {
+      notifier.deliver(
+        alert.channels,
+        alertNotification(dataset, watchlist, alert, evaluation)
+      );
+    }
+  }
+  return changed;
+}
+
+// Re-evaluate every watchlist whenever a new dataset is swapped in
+export function watchAlerts(store: WatchlistStore, notifier: Notifier) {
+  let evaluated: Dataset | null = null;
+  onLoadStateChange((state) => {
+    const dataset = getDataset();
+    if (state.status !== "ready" || dataset === evaluated) return;
+    evaluated = dataset;
+    const changed = store
+      .all()
+      .map((watchlist) => evaluateWatchlist(dataset, watchlist, notifier))
+      .some(Boolean);
+    if (changed) {
+      store.save().catch((error) => {
+        logger.error("Error saving watchlist alert state:", error);
+      });
+    }
+  });
+}
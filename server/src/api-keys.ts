@@ -0,0 +1,165 @@
+import crypto from "crypto";
+import fs from "fs";
+import { ValidationError, ValidationIssue } from "./errors";
+
+export const API_KEY_SCOPES = ["read", "export", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const KEY_PREFIX = "gis_";
+// How often the key file is checked for changes made by the CLI
+const REFRESH_INTERVAL_MS = 1000;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart without storing them
+  prefix: string;
+  // SHA-256 of the key; the key itself is only shown once, when created
+  hash: string;
+  scopes: ApiKeyScope[];
+  // Requests per rate limit window, null for the configured default
+  rateLimit: number | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type ApiKeySummary = Omit<ApiKey, "hash">;
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number | null;
+}
+
+export interface ApiKeyStore {
+  // The active key matching a presented secret
+  verify(secret: string): ApiKey | undefined;
+  list(): ApiKeySummary[];
+  // Returns the secret alongside the stored key; it cannot be recovered later
+  create(input: NewApiKey): { key: ApiKeySummary; secret: string };
+  revoke(id: string): ApiKeySummary | undefined;
+}
+
+const hashSecret = (secret: string) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const summarize = ({ hash, ...key }: ApiKey): ApiKeySummary => key;
+
+// API keys kept hashed in a JSON file shared by the server and the key CLI.
+// Changes are written synchronously, they are rare and come from admins.
+export function createApiKeyStore(file: string): ApiKeyStore {
+  let keys: ApiKey[] = [];
+  let byHash = new Map<string, ApiKey>();
+  let loadedMtime = -1;
+  let checkedAt = 0;
+
+  const load = () => {
+    const mtime = fs.existsSync(file) ? fs.statSync(file).mtimeMs : 0;
+    if (mtime === loadedMtime) return;
+    keys = mtime ? (JSON.parse(fs.readFileSync(file, "utf8")) as ApiKey[]) : [];
+    byHash = new Map(keys.map((key) => [key.hash, key]));
+    loadedMtime = mtime;
+  };
+
+  const refresh = () => {
+    const now = Date.now();
+    if (now - checkedAt < REFRESH_INTERVAL_MS) return;
+    checkedAt = now;
+    load();
+  };
+
+  const save = () => {
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(keys, null, 2), {
+      mode: 0o600,
+    });
+    fs.renameSync(`${file}.tmp`, file);
+    loadedMtime = fs.statSync(file).mtimeMs;
+  };
+
+  load();
+
+  return {
+    verify(secret) {
+      refresh();
+      const key = byHash.get(hashSecret(secret));
+      return key && !key.revokedAt ? key : undefined;
+    },
+    list() {
+      refresh();
+      return keys.map(summarize);
+    },
+    create(input) {
+      load();
+      const secret = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+      const key: ApiKey = {
+        id: crypto.randomUUID(),
+        name: input.name,
+        prefix: secret.slice(0, KEY_PREFIX.length + 6),
+        hash: hashSecret(secret),
+        scopes: input.scopes,
+        rateLimit: input.rateLimit,
+        createdAt: new Date().toISOString(),
+        revokedAt: null,
+      };
+      keys.push(key);
+      byHash.set(key.hash, key);
+      save();
+      return { key: summarize(key), secret };
+    },
+    revoke(id) {
+      load();
+      const key = keys.find((item) => item.id === id);
+      if (!key) return undefined;
+      key.revokedAt ??= new Date().toISOString();
+      save();
+      return summarize(key);
+    },
+  };
+}
+
+export const MAX_KEY_NAME_LENGTH = 100;
+
+export function parseApiKeyInput(body: unknown): NewApiKey {
+  const issues: ValidationIssue[] = [];
+  const input = (
+    typeof body === "object" && body !== null ? body : {}
+  ) as Record<string, unknown>;
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (name === "" || name.length > MAX_KEY_NAME_LENGTH) {
+    issues.push({
+      parameter: "name",
+      message: `must be between 1 and ${MAX_KEY_NAME_LENGTH} characters`,
+    });
+  }
+  const scopes = input.scopes;
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+  ) {
+    issues.push({
+      parameter: "scopes",
+      message: `must list one or more of: ${API_KEY_SCOPES.join(", ")}`,
+    });
+  }
+  const rateLimit = input.rateLimit ?? null;
+  if (
+    rateLimit !== null &&
+    !(Number.isInteger(rateLimit) && (rateLimit as number) > 0)
+  ) {
+    issues.push({
+      parameter: "rateLimit",
+      message: "must be a positive integer",
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return {
+    name,
+    scopes: [...new Set(scopes as ApiKeyScope[])],
+    rateLimit: rateLimit as number | null,
+  };
+}
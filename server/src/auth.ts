@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import express from "express";
+import { ApiKey, ApiKeyScope, API_KEY_SCOPES, ApiKeyStore } from "./api-keys";
+import { RateLimiter } from "./rate-limit";
+
+// Who made a request: an API key, the ADMIN_TOKEN holder, or an anonymous client
+export type Principal =
+  { kind: "key"; key: ApiKey } | { kind: "admin" } | { kind: "anonymous" };
+
+export interface AuthOptions {
+  keys: ApiKeyStore;
+  // Bearer token with every scope, kept for deployments without API keys
+  adminToken: string | undefined;
+  anonymousScopes: ApiKeyScope[];
+  limiter: RateLimiter;
+  // Requests per window for each anonymous IP address
+  anonymousLimit: number;
+  // Requests per window for keys without their own limit
+  keyLimit: number;
+}
+
+const tokensMatch = (expected: string, provided: string) => {
+  const a = crypto.createHash("sha256").update(expected).digest();
+  const b = crypto.createHash("sha256").update(provided).digest();
+  return crypto.timingSafeEqual(a, b);
+};
+
+// Keys are sent as "Authorization: Bearer <key>" or in an X-API-Key header
+const presentedSecret = (req: express.Request): string | undefined => {
+  const header = req.get("authorization");
+  if (header) {
+    const [scheme, secret] = header.split(" ");
+    return scheme === "Bearer" && secret ? secret : "";
+  }
+  return req.get("x-api-key");
+};
+
+const principalOf = (res: express.Response): Principal =>
+  res.locals.principal as Principal;
+
+const scopesOf = (principal: Principal, options: AuthOptions) => {
+  switch (principal.kind) {
+    case "key":
+      return principal.key.scopes;
+    case "admin":
+      return API_KEY_SCOPES;
+    case "anonymous":
+      return options.anonymousScopes;
+  }
+};
+
+// Identify the caller and apply its rate limit: per key for authenticated
+// requests, per IP address for anonymous ones. Unknown or revoked keys are
+// rejected rather than treated as anonymous.
+export function authenticate(options: AuthOptions): express.RequestHandler {
+  return (req, res, next) => {
+    const secret = presentedSecret(req);
+    let principal: Principal;
+    let bucket: string;
+    let limit: number;
+
+    if (secret === undefined) {
+      principal = { kind: "anonymous" };
+      bucket = `ip:${req.ip}`;
+      limit = options.anonymousLimit;
+    } else if (options.adminToken && tokensMatch(options.adminToken, secret)) {
+      principal = { kind: "admin" };
+      bucket = "admin";
+      limit = options.keyLimit;
+    } else {
+      const key = secret ? options.keys.verify(secret) : undefined;
+      if (!key) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      principal = { kind: "key", key };
+      bucket = `key:${key.id}`;
+      limit = key.rateLimit ?? options.keyLimit;
+    }
+
+    // Responses differ by caller, so shared caches must not mix them up
+    res.vary("Authorization");
+    res.vary("X-API-Key");
+
+    const result = options.limiter.consume(bucket, limit);
+    res.set({
+      "RateLimit-Limit": String(result.limit),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(result.reset),
+      "RateLimit-Policy": `${result.limit};w=${options.limiter.windowSeconds}`,
+    });
+    if (!result.allowed) {
+      res.set("Retry-After", String(result.reset));
+      res.status(429).json({ error: "Too many requests" });
+      return;
+    }
+
+    res.locals.principal = principal;
+    res.locals.scopes = scopesOf(principal, options);
+    next();
+  };
+}
+
+// Only let callers whose key, or anonymous access, grants the scope through
+export function requireScope(scope: ApiKeyScope): express.RequestHandler {
+  return (req, res, next) => {
+    const scopes = res.locals.scopes as readonly ApiKeyScope[];
+    if (!scopes.includes(scope)) {
+      const status = principalOf(res).kind === "anonymous" ? 401 : 403;
+      res.status(status).json({
+        error:
+          status === 401
+            ? "An API key is required"
+            : `API key lacks the ${scope} scope`,
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,38 @@
+import { createHash } from "crypto";
+import express from "express";
+import onHeaders from "on-headers";
+import { getDataset } from "./store";
+
+// For responses that depend only on the dataset and the request URL: the ETag
+// combines the dataset version with a hash of the URL, so a reload invalidates
+// every cached response and unchanged data is answered with 304 Not Modified
+// before the handler runs. Errors are never marked cacheable, and responses to
+// requests with an API key are left to the caller's own cache, as shared
+// caches would otherwise hand them to other callers.
+export function datasetCache(maxAge: number): express.RequestHandler {
+  return (req, res, next) => {
+    const keyed = Boolean(req.get("authorization") || req.get("x-api-key"));
+    const dataset = getDataset();
+    const url = createHash("sha256")
+      .update(req.originalUrl)
+      .digest("base64url")
+      .slice(0, 16);
+    res.set({
+      ETag: `W/"${dataset.version}-${url}"`,
+      "Last-Modified": dataset.loadedAt.toUTCString(),
+      "Cache-Control": `${keyed ? "private" : "public"}, max-age=${maxAge}`,
+    });
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    onHeaders(res, () => {
+      if (res.statusCode < 200 || res.statusCode >= 300) {
+        res.removeHeader("ETag");
+        res.removeHeader("Last-Modified");
+        res.setHeader("Cache-Control", "no-store");
+      }
+    });
+    next();
+  };
+}
@@ -0,0 +1,65 @@
+import { SpeedSummary, summarizeSpeedData } from "./aggregate";
+import { Dataset } from "./dataset";
+import { Period, periodKey } from "./period";
+import {
+  matchesRegion,
+  PercentilePosition,
+  percentilePosition,
+  RegionKind,
+  RegionRef,
+  regionName,
+} from "./regions";
+import { buildTrend, TrendPoint } from "./trends";
+import { NetworkType, SpeedData } from "./types";
+
+export const MIN_COMPARE_REGIONS = 2;
+export const MAX_COMPARE_REGIONS = 5;
+
+export interface RegionComparison {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  // Null when the region has no tiles in the compared period
+  summary: SpeedSummary | null;
+  position: PercentilePosition | null;
+  trend: TrendPoint[];
+}
+
+export interface Comparison {
+  period: Period;
+  type: NetworkType;
+  regions: RegionComparison[];
+}
+
+// Regions must have records somewhere in the dataset; the route checks that
+// before comparing so unknown ids can be reported as not found
+export function compareRegions(
+  dataset: Dataset,
+  refs: RegionRef[],
+  period: Period,
+  type: NetworkType
+): Comparison {
+  const periodRecords = (dataset.byPeriod.get(periodKey(period)) ?? []).filter(
+    (item) => item.type === type
+  );
+
+  return {
+    period,
+    type,
+    regions: refs.map((ref) => {
+      const matches = matchesRegion(ref);
+      const sample = dataset.records.find(matches) as SpeedData;
+      const summary = summarizeSpeedData(periodRecords.filter(matches));
+      return {
+        id: ref.id,
+        kind: ref.kind,
+        name: regionName(ref, sample),
+        countryCode: ref.countryCode ?? sample.countryCode,
+        summary,
+        position: summary && percentilePosition(periodRecords, summary),
+        trend: buildTrend(dataset, type, matches),
+      };
+    }),
+  };
+}
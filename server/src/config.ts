@@ -0,0 +1,115 @@
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const dataDir = path.join(__dirname, "..", "data");
+
+export const PORT = process.env.PORT || 3001;
+export const NODE_ENV = process.env.NODE_ENV || "development";
+
+// Notification configuration
+export const NOTIFICATION_PROVIDER =
+  process.env.NOTIFICATION_PROVIDER || "none";
+export const NOTIFICATION_WEBHOOK_URL = process.env.NOTIFICATION_WEBHOOK_URL;
+
+// Channels and trigger rules; without this file NOTIFICATION_PROVIDER and
+// NOTIFICATION_WEBHOOK_URL receive dataset reload, failure and new quarter
+// notifications. See notification-rules.example.json.
+export const NOTIFICATION_RULES_FILE =
+  process.env.NOTIFICATION_RULES_FILE ||
+  path.join(__dirname, "..", "notification-rules.json");
+
+// Delivery retries back off exponentially from the base delay
+export const NOTIFICATION_MAX_ATTEMPTS =
+  Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+export const NOTIFICATION_RETRY_DELAY_MS =
+  Number(process.env.NOTIFICATION_RETRY_DELAY_MS) || 1000;
+export const NOTIFICATION_MAX_RETRY_DELAY_MS =
+  Number(process.env.NOTIFICATION_MAX_RETRY_DELAY_MS) || 300000;
+export const NOTIFICATION_QUEUE_SIZE =
+  Number(process.env.NOTIFICATION_QUEUE_SIZE) || 100;
+
+// Watchlists and alerts saved from the dashboard; kept outside DATA_DIR so
+// saving one does not trigger a dataset reload
+export const WATCHLISTS_FILE =
+  process.env.WATCHLISTS_FILE || path.join(__dirname, "..", "watchlists.json");
+// Watchlists can be created without a key, so their number is capped
+export const MAX_WATCHLISTS = Number(process.env.MAX_WATCHLISTS) || 1000;
+
+// Where speed data is read from: "csv" or "parquet" files under DATA_DIR
+// (fixed and mobile, one file per quarter), or a table in a SQLite file
+export const DATA_SOURCE = process.env.DATA_SOURCE || "csv";
+export const DATA_DIR = process.env.DATA_DIR || dataDir;
+export const SQLITE_FILE =
+  process.env.SQLITE_FILE || path.join(dataDir, "speeds.sqlite");
+export const SQLITE_TABLE = process.env.SQLITE_TABLE || "performance_tiles";
+
+// Reload the dataset when files under the data source change
+export const WATCH_DATA = process.env.WATCH_DATA !== "false";
+export const RELOAD_DEBOUNCE_MS =
+  Number(process.env.RELOAD_DEBOUNCE_MS) || 2000;
+
+// Seconds browsers and CDNs may reuse data responses before revalidating
+export const CACHE_MAX_AGE = Number(process.env.CACHE_MAX_AGE) || 60;
+
+// Bearer token with every scope, including admin; admin routes need an
+// admin-scoped API key when unset
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+// Hashed API keys, managed with "npm run keys" or /api/admin/keys
+export const API_KEYS_FILE =
+  process.env.API_KEYS_FILE || path.join(__dirname, "..", "api-keys.json");
+
+// Scopes (read, export, admin) granted to requests without a key; the
+// dashboard calls the API without one. Set to "" to require keys everywhere.
+export const ANONYMOUS_SCOPES = (process.env.ANONYMOUS_SCOPES ?? "read,export")
+  .split(",")
+  .map((scope) => scope.trim())
+  .filter(Boolean);
+
+// Requests allowed per window, per IP address without a key and per key with one
+export const RATE_LIMIT_WINDOW_SECONDS =
+  Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 60;
+export const RATE_LIMIT_ANONYMOUS =
+  Number(process.env.RATE_LIMIT_ANONYMOUS) || 120;
+export const RATE_LIMIT_API_KEY =
+  Number(process.env.RATE_LIMIT_API_KEY) || 1200;
+
+// Comma-separated origins allowed to call the API from browsers; any origin
+// when unset
+export const CORS_ORIGINS = process.env.CORS_ORIGINS?.split(",").map((origin) =>
+  origin.trim()
+);
+
+// Check JSON responses against the OpenAPI document and log mismatches;
+// on by default outside production
+export const VALIDATE_RESPONSES = process.env.VALIDATE_RESPONSES
+  ? process.env.VALIDATE_RESPONSES === "true"
+  : NODE_ENV !== "production";
+
+// Express "trust proxy" setting, e.g. 1 behind a single reverse proxy, so
+// rate limits apply to the client address rather than the proxy's
+export const TRUST_PROXY = process.env.TRUST_PROXY;
+
+// Weight, in tests, of the period average when ranking by sample-adjusted
+// score; higher values pull tiles with few tests harder toward the average
+export const RANKING_PRIOR_TESTS =
+  Number(process.env.RANKING_PRIOR_TESTS) || 10;
+
+// Offline boundary datasets used to reverse-geocode tiles (Natural Earth GeoJSON)
+export const COUNTRY_BOUNDARIES_FILE =
+  process.env.COUNTRY_BOUNDARIES_FILE ||
+  path.join(dataDir, "boundaries", "ne_10m_admin_0_countries.geojson");
+export const REGION_BOUNDARIES_FILE =
+  process.env.REGION_BOUNDARIES_FILE ||
+  path.join(dataDir, "boundaries", "ne_10m_admin_1_states_provinces.geojson");
+
+// Simplified country outlines the map draws under its cells; kept apart from
+// the geocoding boundaries, which are far too detailed to send to browsers
+export const BASEMAP_FILE =
+  process.env.BASEMAP_FILE ||
+  path.join(dataDir, "basemap", "ne_110m_countries.geojson");
+// Seconds browsers may reuse the basemap, which only changes with a deploy
+export const BASEMAP_MAX_AGE =
+  Number(process.env.BASEMAP_MAX_AGE) || 7 * 24 * 60 * 60;
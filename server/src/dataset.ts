@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { Geocoder } from "./geocode";
+import { logger } from "./logger";
+import { comparePeriods, Period, periodKey } from "./period";
+import { DataQualityReport, rejectRow, summarizeQuality } from "./quality";
+import { DataSource } from "./sources";
+import { SpeedData } from "./types";
+
+export interface Dataset {
+  records: SpeedData[];
+  byPeriod: Map<string, SpeedData[]>;
+  periods: Period[];
+  files: string[];
+  quality: DataQualityReport;
+  // Hash of the loaded records, changing only when the served data changes
+  version: string;
+  loadedAt: Date;
+}
+
+export const emptyDataset = (): Dataset => ({
+  records: [],
+  byPeriod: new Map(),
+  periods: [],
+  files: [],
+  quality: summarizeQuality([]),
+  version: "empty",
+  loadedAt: new Date(),
+});
+
+const datasetVersion = (records: SpeedData[]): string => {
+  const hash = createHash("sha256");
+  for (const item of records) {
+    hash.update(
+      [
+        item.quadkey,
+        item.type,
+        item.year,
+        item.quarter,
+        item.avgDownloadSpeed,
+        item.avgUploadSpeed,
+        item.avgLatency,
+        item.tests,
+        item.devices,
+        item.countryCode,
+        item.region,
+      ].join(",") + "\n"
+    );
+  }
+  return hash.digest("hex").slice(0, 16);
+};
+
+// The period requested, or the most recent one loaded
+export const selectPeriod = (
+  dataset: Dataset,
+  requested: Period | undefined
+): Period | undefined =>
+  requested ?? dataset.periods[dataset.periods.length - 1];
+
+// Load every batch from the data source and index the records by period. A
+// quadkey may appear once per network type and period; later copies, in file
+// order, are rejected as duplicates.
+export async function loadDataset(
+  source: DataSource,
+  geocoder: Geocoder
+): Promise<Dataset> {
+  const batches = await source.load();
+  const dataset = emptyDataset();
+  const seen = new Map<string, string>();
+
+  for (const { source: file, records, quality } of batches) {
+    for (const record of records) {
+      const id = `${record.quadkey}-${record.type}-${periodKey(record)}`;
+      const firstSource = seen.get(id);
+      if (firstSource !== undefined) {
+        quality.accepted -= 1;
+        rejectRow(quality, {
+          row: null,
+          reason: "duplicate_quadkey",
+          message: `${id} already loaded from ${firstSource}`,
+        });
+        continue;
+      }
+      seen.set(id, file);
+
+      const item = { ...record, ...geocoder.reverseGeocode(record.centroid) };
+      dataset.records.push(item);
+
+      const key = periodKey(item);
+      let periodRecords = dataset.byPeriod.get(key);
+      if (!periodRecords) {
+        periodRecords = [];
+        dataset.byPeriod.set(key, periodRecords);
+        dataset.periods.push({ year: item.year, quarter: item.quarter });
+      }
+      periodRecords.push(item);
+    }
+    dataset.files.push(file);
+    logger.info(`Loaded ${quality.accepted} records from ${file}`);
+  }
+
+  dataset.quality = summarizeQuality(batches.map((batch) => batch.quality));
+
+  dataset.records.sort((a, b) => b.avgDownloadSpeed - a.avgDownloadSpeed);
+  dataset.periods.sort(comparePeriods);
+  dataset.version = datasetVersion(dataset.records);
+  dataset.loadedAt = new Date();
+  return dataset;
+}
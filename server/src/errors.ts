@@ -0,0 +1,18 @@
+export interface ValidationIssue {
+  parameter: string;
+  message: string;
+}
+
+// Thrown when request input is invalid; route handlers answer it with a 400
+export class ValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(
+      issues.map((issue) => `${issue.parameter}: ${issue.message}`).join("; ")
+    );
+    this.name = "ValidationError";
+  }
+
+  toJSON() {
+    return { error: "Invalid request parameters", details: this.issues };
+  }
+}
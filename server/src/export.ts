@@ -0,0 +1,199 @@
+import ExcelJS from "exceljs";
+import { periodKey } from "./period";
+import { SpeedQuery } from "./query";
+import { RankingMethod } from "./rankings";
+import { SpeedData } from "./types";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  value: (item: SpeedData) => string | number | null;
+}
+
+// Headers carry the units so the file stands on its own outside the app
+const COLUMNS: ExportColumn[] = [
+  { key: "quadkey", header: "Quadkey", value: (item) => item.quadkey },
+  {
+    key: "countryCode",
+    header: "Country Code",
+    value: (item) => item.countryCode,
+  },
+  { key: "countryName", header: "Country", value: (item) => item.countryName },
+  { key: "region", header: "Region", value: (item) => item.region },
+  { key: "type", header: "Network Type", value: (item) => item.type },
+  { key: "period", header: "Period", value: (item) => periodKey(item) },
+  { key: "year", header: "Year", value: (item) => item.year },
+  { key: "quarter", header: "Quarter", value: (item) => item.quarter },
+  {
+    key: "avgDownloadSpeed",
+    header: "Download (Mbps)",
+    value: (item) => item.avgDownloadSpeed,
+  },
+  {
+    key: "avgUploadSpeed",
+    header: "Upload (Mbps)",
+    value: (item) => item.avgUploadSpeed,
+  },
+  {
+    key: "avgLatency",
+    header: "Latency (ms)",
+    value: (item) => item.avgLatency,
+  },
+  { key: "tests", header: "Tests", value: (item) => item.tests },
+  { key: "devices", header: "Devices", value: (item) => item.devices },
+  { key: "zoom", header: "Zoom", value: (item) => item.zoom },
+  { key: "west", header: "West (deg)", value: (item) => item.bbox.west },
+  { key: "south", header: "South (deg)", value: (item) => item.bbox.south },
+  { key: "east", header: "East (deg)", value: (item) => item.bbox.east },
+  { key: "north", header: "North (deg)", value: (item) => item.bbox.north },
+  {
+    key: "centroidLat",
+    header: "Centroid Latitude (deg)",
+    value: (item) => item.centroid.lat,
+  },
+  {
+    key: "centroidLon",
+    header: "Centroid Longitude (deg)",
+    value: (item) => item.centroid.lon,
+  },
+  { key: "tile", header: "Tile (WKT)", value: (item) => item.tile },
+];
+
+export const UNITS = {
+  avgDownloadSpeed: "Mbps",
+  avgUploadSpeed: "Mbps",
+  avgLatency: "ms",
+  coordinates: "WGS84 degrees",
+};
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+// Describe the applied filters in the file name, e.g.
+// internet-speeds_2020-Q2_mobile_min-tests-5_download-desc.csv
+export function exportFileName(
+  query: SpeedQuery,
+  format: ExportFormat,
+  method: RankingMethod = "raw"
+): string {
+  const parts = ["internet-speeds"];
+  if (query.year !== undefined && query.quarter !== undefined) {
+    parts.push(periodKey({ year: query.year, quarter: query.quarter }));
+  } else if (query.year !== undefined) {
+    parts.push(String(query.year));
+  } else if (query.quarter !== undefined) {
+    parts.push(`Q${query.quarter}`);
+  }
+  if (query.type) parts.push(query.type);
+  if (query.country) parts.push(query.country);
+  if (query.minTests > 0) parts.push(`min-tests-${query.minTests}`);
+  if (query.bbox) {
+    const { west, south, east, north } = query.bbox;
+    parts.push(`bbox-${[west, south, east, north].join("_")}`);
+  }
+  if (method !== "raw") parts.push(method);
+  parts.push(`${query.sort}-${query.order}`);
+  return `${parts.join("_")}.${format}`;
+}
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = (data: SpeedData[]) =>
+  [
+    COLUMNS.map((column) => csvCell(column.header)).join(","),
+    ...data.map((item) =>
+      COLUMNS.map((column) => csvCell(column.value(item))).join(",")
+    ),
+  ].join("\n") + "\n";
+
+const exportMetadata = (
+  query: SpeedQuery,
+  method: RankingMethod,
+  data: SpeedData[]
+) => ({
+  exportedAt: new Date().toISOString(),
+  rows: data.length,
+  filters: { ...query, method },
+  periods: [...new Set(data.map((item) => periodKey(item)))].sort(),
+  units: UNITS,
+});
+
+const toXLSX = async (
+  query: SpeedQuery,
+  method: RankingMethod,
+  data: SpeedData[]
+) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Internet Speeds");
+  sheet.columns = COLUMNS.map((column) => ({
+    key: column.key,
+    header: column.header,
+    width: Math.max(12, column.header.length + 2),
+  }));
+  data.forEach((item) =>
+    sheet.addRow(
+      Object.fromEntries(
+        COLUMNS.map((column) => [column.key, column.value(item)])
+      )
+    )
+  );
+  sheet.getRow(1).font = { bold: true };
+
+  const metadata = exportMetadata(query, method, data);
+  const metadataSheet = workbook.addWorksheet("Metadata");
+  metadataSheet.addRows([
+    ["Exported at", metadata.exportedAt],
+    ["Rows", metadata.rows],
+    ["Periods", metadata.periods.join(", ")],
+    ["Filters", JSON.stringify(metadata.filters)],
+    ["Speed units", "Mbps (converted from kbps in the source files)"],
+    ["Latency units", "ms"],
+    ["Coordinates", UNITS.coordinates],
+  ]);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+export async function exportSpeedData(
+  data: SpeedData[],
+  query: SpeedQuery,
+  format: ExportFormat,
+  method: RankingMethod = "raw"
+): Promise<ExportFile> {
+  let body: Buffer | string;
+  switch (format) {
+    case "csv":
+      body = toCSV(data);
+      break;
+    case "xlsx":
+      body = await toXLSX(query, method, data);
+      break;
+    case "json":
+      body = JSON.stringify({
+        metadata: exportMetadata(query, method, data),
+        data,
+      });
+      break;
+  }
+  return {
+    fileName: exportFileName(query, format, method),
+    contentType: CONTENT_TYPES[format],
+    body,
+  };
+}
@@ -0,0 +1,226 @@
+import fs from "fs";
+import { logger } from "./logger";
+import { BoundingBox, LatLon } from "./quadkey";
+
+type Ring = number[][];
+type PolygonCoordinates = Ring[];
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+interface GeoJSONFeature {
+  type: "Feature";
+  properties: Record<string, unknown> | null;
+  geometry: GeoJSONGeometry | null;
+}
+
+interface Boundary {
+  code: string | null;
+  name: string;
+  countryCode: string | null;
+  polygons: PolygonCoordinates[];
+  bbox: BoundingBox;
+}
+
+export interface GeocodeResult {
+  countryCode: string | null;
+  countryName: string | null;
+  region: string | null;
+}
+
+export interface Geocoder {
+  reverseGeocode(point: LatLon): GeocodeResult;
+}
+
+const EMPTY_RESULT: GeocodeResult = {
+  countryCode: null,
+  countryName: null,
+  region: null,
+};
+
+// Natural Earth uses upper-case keys for admin-0 and lower-case for admin-1,
+// and marks unknown values with "-99"
+const readProperty = (
+  properties: Record<string, unknown>,
+  ...keys: string[]
+): string | null => {
+  for (const key of keys) {
+    const value = properties[key] ?? properties[key.toLowerCase()];
+    if (typeof value === "string" && value !== "" && value !== "-99") {
+      return value;
+    }
+  }
+  return null;
+};
+
+const toPolygons = (geometry: GeoJSONGeometry): PolygonCoordinates[] => {
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates as PolygonCoordinates];
+    case "MultiPolygon":
+      return geometry.coordinates as PolygonCoordinates[];
+    default:
+      return [];
+  }
+};
+
+const polygonsBoundingBox = (polygons: PolygonCoordinates[]): BoundingBox => {
+  const bbox = { west: 180, south: 90, east: -180, north: -90 };
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon[0] ?? []) {
+      bbox.west = Math.min(bbox.west, lon);
+      bbox.south = Math.min(bbox.south, lat);
+      bbox.east = Math.max(bbox.east, lon);
+      bbox.north = Math.max(bbox.north, lat);
+    }
+  }
+  return bbox;
+};
+
+// Even-odd ray casting; holes are handled by counting crossings on every ring
+const polygonContains = (polygon: PolygonCoordinates, { lat, lon }: LatLon) => {
+  let inside = false;
+  for (const ring of polygon) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (
+        yi > lat !== yj > lat &&
+        lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+      ) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+const boundaryContains = (boundary: Boundary, point: LatLon) =>
+  point.lon >= boundary.bbox.west &&
+  point.lon <= boundary.bbox.east &&
+  point.lat >= boundary.bbox.south &&
+  point.lat <= boundary.bbox.north &&
+  boundary.polygons.some((polygon) => polygonContains(polygon, point));
+
+// Boundaries are bucketed into one-degree cells by bounding box, so a lookup
+// only tests the few polygons near the point instead of every boundary
+const GRID_COLUMNS = 360;
+const GRID_ROWS = 180;
+
+const gridColumn = (lon: number) =>
+  Math.min(GRID_COLUMNS - 1, Math.max(0, Math.floor(lon + 180)));
+const gridRow = (lat: number) =>
+  Math.min(GRID_ROWS - 1, Math.max(0, Math.floor(lat + 90)));
+
+// Candidate boundaries for a point, in the order they were loaded
+const indexBoundaries = (
+  boundaries: Boundary[]
+): ((point: LatLon) => Boundary[]) => {
+  const cells = new Map<number, Boundary[]>();
+  for (const boundary of boundaries) {
+    const { west, south, east, north } = boundary.bbox;
+    for (let row = gridRow(south); row <= gridRow(north); row++) {
+      for (
+        let column = gridColumn(west);
+        column <= gridColumn(east);
+        column++
+      ) {
+        const key = row * GRID_COLUMNS + column;
+        const cell = cells.get(key);
+        if (cell) {
+          cell.push(boundary);
+        } else {
+          cells.set(key, [boundary]);
+        }
+      }
+    }
+  }
+  return (point) =>
+    cells.get(gridRow(point.lat) * GRID_COLUMNS + gridColumn(point.lon)) ?? [];
+};
+
+const loadBoundaries = async (
+  filePath: string,
+  toBoundary: (
+    properties: Record<string, unknown>
+  ) => Omit<Boundary, "polygons" | "bbox">
+): Promise<Boundary[]> => {
+  // loadGeocoder warns about what's missing once both files are read
+  if (!fs.existsSync(filePath)) return [];
+
+  const collection = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+  const features: GeoJSONFeature[] = collection.features ?? [];
+  const boundaries: Boundary[] = [];
+  for (const feature of features) {
+    if (!feature.geometry) continue;
+    const polygons = toPolygons(feature.geometry);
+    if (polygons.length === 0) continue;
+    boundaries.push({
+      ...toBoundary(feature.properties ?? {}),
+      polygons,
+      bbox: polygonsBoundingBox(polygons),
+    });
+  }
+  logger.info(`Loaded ${boundaries.length} boundaries from ${filePath}`);
+  return boundaries;
+};
+
+export async function loadGeocoder(
+  countriesFile: string,
+  regionsFile: string
+): Promise<Geocoder> {
+  const [countries, regions] = await Promise.all([
+    loadBoundaries(countriesFile, (properties) => {
+      const code = readProperty(properties, "ISO_A2", "ISO_A2_EH", "WB_A2");
+      return {
+        code,
+        name: readProperty(properties, "NAME", "ADMIN") ?? "Unknown",
+        countryCode: code,
+      };
+    }),
+    loadBoundaries(regionsFile, (properties) => ({
+      code: readProperty(properties, "ISO_3166_2"),
+      name: readProperty(properties, "NAME", "NAME_EN") ?? "Unknown",
+      countryCode: readProperty(properties, "ISO_A2"),
+    })),
+  ]);
+
+  if (countries.length === 0) {
+    logger.warn(
+      `No country boundaries loaded from ${countriesFile}: tiles won't be ` +
+        "geocoded, so country and region names, grouping, rankings and " +
+        "search will be empty. See data/boundaries/README.md for the files to add."
+    );
+  } else if (regions.length === 0) {
+    logger.warn(
+      `No region boundaries loaded from ${regionsFile}: tiles won't be ` +
+        "assigned to regions. See data/boundaries/README.md for the files to add."
+    );
+  }
+
+  const countriesNear = indexBoundaries(countries);
+  const regionsNear = indexBoundaries(regions);
+
+  return {
+    reverseGeocode(point) {
+      const country = countriesNear(point).find((boundary) =>
+        boundaryContains(boundary, point)
+      );
+      if (!country) {
+        return EMPTY_RESULT;
+      }
+      const region = regionsNear(point).find(
+        (boundary) =>
+          (!boundary.countryCode || boundary.countryCode === country.code) &&
+          boundaryContains(boundary, point)
+      );
+      return {
+        countryCode: country.code,
+        countryName: country.name,
+        region: region?.name ?? null,
+      };
+    },
+  };
+}
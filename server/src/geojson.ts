@@ -0,0 +1,69 @@
+import { Feature, FeatureCollection, Polygon } from "geojson";
+import { BoundingBox } from "./quadkey";
+import { SpeedData } from "./types";
+
+export type SpeedFeature = Feature<Polygon, SpeedFeatureProperties>;
+
+export interface SpeedFeatureProperties {
+  quadkey: string;
+  countryCode: string | null;
+  countryName: string | null;
+  region: string | null;
+  type: string;
+  avgDownloadSpeed: number;
+  avgUploadSpeed: number;
+  avgLatency: number;
+  tests: number;
+  devices: number;
+  year: number;
+  quarter: number;
+}
+
+export const boundingBoxPolygon = ({
+  west,
+  south,
+  east,
+  north,
+}: BoundingBox): Polygon => ({
+  type: "Polygon",
+  // Counter-clockwise exterior ring, as RFC 7946 requires
+  coordinates: [
+    [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south],
+    ],
+  ],
+});
+
+// The tile geometry is rebuilt from the quadkey rather than parsed from the
+// WKT column, so it is exact and independent of the source file's precision
+export function toFeature(item: SpeedData): SpeedFeature {
+  return {
+    type: "Feature",
+    id: `${item.quadkey}-${item.type}-${item.year}-Q${item.quarter}`,
+    geometry: boundingBoxPolygon(item.bbox),
+    properties: {
+      quadkey: item.quadkey,
+      countryCode: item.countryCode,
+      countryName: item.countryName,
+      region: item.region,
+      type: item.type,
+      avgDownloadSpeed: item.avgDownloadSpeed,
+      avgUploadSpeed: item.avgUploadSpeed,
+      avgLatency: item.avgLatency,
+      tests: item.tests,
+      devices: item.devices,
+      year: item.year,
+      quarter: item.quarter,
+    },
+  };
+}
+
+export function toFeatureCollection(
+  data: SpeedData[]
+): FeatureCollection<Polygon, SpeedFeatureProperties> {
+  return { type: "FeatureCollection", features: data.map(toFeature) };
+}
@@ -1,214 +1,848 @@
 import express from "express";
+import compression from "compression";
 import cors from "cors";
 import fs from "fs";
-import path from "path";
-import csv from "csv-parser";
-import winston from "winston";
-import axios from "axios";
-import dotenv from "dotenv";
-import colors from "colors/safe";
-
-dotenv.config();
+import swaggerUi from "swagger-ui-express";
+import { evaluateWatchlist, watchAlerts } from "./alerts";
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  createApiKeyStore,
+  parseApiKeyInput,
+} from "./api-keys";
+import { authenticate, requireScope } from "./auth";
+import { datasetCache } from "./cache";
+import { aggregateSpeedData, GROUP_BY_OPTIONS } from "./aggregate";
+import {
+  ADMIN_TOKEN,
+  ANONYMOUS_SCOPES,
+  API_KEYS_FILE,
+  BASEMAP_FILE,
+  BASEMAP_MAX_AGE,
+  CACHE_MAX_AGE,
+  CORS_ORIGINS,
+  COUNTRY_BOUNDARIES_FILE,
+  DATA_DIR,
+  DATA_SOURCE,
+  NOTIFICATION_MAX_ATTEMPTS,
+  NOTIFICATION_MAX_RETRY_DELAY_MS,
+  NOTIFICATION_PROVIDER,
+  NOTIFICATION_QUEUE_SIZE,
+  NOTIFICATION_RETRY_DELAY_MS,
+  NOTIFICATION_RULES_FILE,
+  NOTIFICATION_WEBHOOK_URL,
+  PORT,
+  RATE_LIMIT_ANONYMOUS,
+  RATE_LIMIT_API_KEY,
+  RATE_LIMIT_WINDOW_SECONDS,
+  RANKING_PRIOR_TESTS,
+  REGION_BOUNDARIES_FILE,
+  RELOAD_DEBOUNCE_MS,
+  SQLITE_FILE,
+  SQLITE_TABLE,
+  TRUST_PROXY,
+  VALIDATE_RESPONSES,
+  WATCH_DATA,
+  MAX_WATCHLISTS,
+  WATCHLISTS_FILE,
+} from "./config";
+import { loadDataset, selectPeriod } from "./dataset";
+import { ValidationError } from "./errors";
+import {
+  compareRegions,
+  MAX_COMPARE_REGIONS,
+  MIN_COMPARE_REGIONS,
+} from "./compare";
+import { EXPORT_FORMATS, exportSpeedData } from "./export";
+import { loadGeocoder } from "./geocode";
+import { toFeatureCollection } from "./geojson";
+import { logger } from "./logger";
+import { describeDataset } from "./metadata";
+import { createNotifier } from "./notifications";
+import { loadNotificationConfig } from "./notifications/rules";
+import {
+  assertRoutesDocumented,
+  buildOpenApiDocument,
+  schemaValidation,
+} from "./openapi";
+import {
+  filterSpeedData,
+  MAX_SEARCH_LENGTH,
+  PARAMETER_RANGES,
+  parsePeriod,
+  parseSpeedFilter,
+  parseSpeedQuery,
+  QueryParser,
+  querySpeedData,
+  SORT_OPTIONS,
+  UNLIMITED,
+} from "./query";
+import { comparePeriods } from "./period";
+import { RANKING_METHODS, rankSpeedData, sortByRankingScore } from "./rankings";
+import { createRateLimiter } from "./rate-limit";
+import {
+  matchesRegion,
+  parseRegionId,
+  RegionRef,
+  regionDetail,
+} from "./regions";
+import { searchRegions } from "./search";
+import { createDataSource } from "./sources";
+import { computeSpeedStats, DEFAULT_HISTOGRAM_BINS } from "./stats";
+import {
+  getDataset,
+  getLoadState,
+  LoadState,
+  onLoadStateChange,
+  reloadDataset,
+} from "./store";
+import { buildTrend } from "./trends";
+import { NETWORK_TYPES } from "./types";
+import { getVectorTile } from "./vector-tiles";
+import { watchDataPath } from "./watch";
+import {
+  createWatchlistStore,
+  parseWatchlistInput,
+  WatchlistInput,
+} from "./watchlists";
 
 const app = express();
-const port = process.env.PORT || 3001;
 
-app.use(cors());
+if (TRUST_PROXY !== undefined) {
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY
+  );
+}
+
+// Clients read ETags to make conditional requests when polling, and rate
+// limit headers to pace themselves
+app.use(
+  cors({
+    origin: CORS_ORIGINS ?? "*",
+    exposedHeaders: [
+      "ETag",
+      "RateLimit-Limit",
+      "RateLimit-Remaining",
+      "RateLimit-Reset",
+      "RateLimit-Policy",
+      "Retry-After",
+    ],
+  })
+);
+
+const apiKeys = createApiKeyStore(API_KEYS_FILE);
+const anonymousScopes = API_KEY_SCOPES.filter((scope) =>
+  ANONYMOUS_SCOPES.includes(scope)
+);
+app.use(
+  authenticate({
+    keys: apiKeys,
+    adminToken: ADMIN_TOKEN,
+    anonymousScopes,
+    limiter: createRateLimiter(RATE_LIMIT_WINDOW_SECONDS),
+    anonymousLimit: RATE_LIMIT_ANONYMOUS,
+    keyLimit: RATE_LIMIT_API_KEY,
+  })
+);
+const readable = requireScope("read");
+const admin = requireScope("admin");
+
 app.use(express.json());
 
-// Ensure logs directory exists
-const logsDir = path.join(__dirname, "..", "logs");
-if (!fs.existsSync(logsDir)) {
-  fs.mkdirSync(logsDir);
-}
+// Requests are checked against the same document the docs are rendered from
+const openApiDocument = buildOpenApiDocument({ anonymousScopes });
+app.use(
+  schemaValidation(openApiDocument, { validateResponses: VALIDATE_RESPONSES })
+);
+app.use(
+  compression({
+    // Compression buffers output, which would hold back event stream messages
+    filter: (req, res) =>
+      !String(res.getHeader("Content-Type")).startsWith("text/event-stream") &&
+      compression.filter(req, res),
+  })
+);
 
-// Custom format for colored console output
-const coloredFormat = winston.format.printf(({ level, message, timestamp }) => {
-  let coloredLevel;
-  switch (level) {
-    case "info":
-      coloredLevel = colors.green(level);
-      break;
-    case "warn":
-      coloredLevel = colors.yellow(level);
-      break;
-    case "error":
-      coloredLevel = colors.red(level);
-      break;
-    default:
-      coloredLevel = level;
-  }
-  return `${colors.gray(timestamp)} ${coloredLevel}: ${message}`;
-});
-
-// Custom format for production console output
-const productionFormat = winston.format.printf(
-  ({ level, message, timestamp }) => {
-    return `${timestamp} ${level}: ${message}`;
+// Subscribed before the first load so a failing startup load is reported
+const notifier = createNotifier(
+  loadNotificationConfig(
+    NOTIFICATION_RULES_FILE,
+    NOTIFICATION_PROVIDER,
+    NOTIFICATION_WEBHOOK_URL
+  ),
+  {
+    maxAttempts: NOTIFICATION_MAX_ATTEMPTS,
+    baseDelayMs: NOTIFICATION_RETRY_DELAY_MS,
+    maxDelayMs: NOTIFICATION_MAX_RETRY_DELAY_MS,
+    maxSize: NOTIFICATION_QUEUE_SIZE,
   }
 );
+app.use(notifier.requestMonitor());
 
-// Configure Winston logger
-const logger = winston.createLogger({
-  level: "info",
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.json()
-  ),
-  transports: [
-    new winston.transports.File({
-      filename: path.join(logsDir, "error.log"),
-      level: "error",
-    }),
-    new winston.transports.File({
-      filename: path.join(logsDir, "combined.log"),
-    }),
-  ],
-});
-
-// Add console transport for all environments
-if (process.env.NODE_ENV === "production") {
-  logger.add(
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.timestamp(),
-        productionFormat
-      ),
-    })
-  );
-} else {
-  logger.add(
-    new winston.transports.Console({
-      format: winston.format.combine(winston.format.timestamp(), coloredFormat),
-    })
+const watchlists = createWatchlistStore(WATCHLISTS_FILE, MAX_WATCHLISTS);
+watchAlerts(watchlists, notifier);
+
+// How long clients wait before reconnecting a dropped event stream
+const EVENT_RETRY_MS = 5000;
+
+const cacheable = datasetCache(CACHE_MAX_AGE);
+
+const dataSource = createDataSource({
+  type: DATA_SOURCE,
+  dir: DATA_DIR,
+  sqliteFile: SQLITE_FILE,
+  sqliteTable: SQLITE_TABLE,
+});
+
+// Boundaries don't change at runtime, so the geocoder is built once and reused by reloads
+const geocoder = loadGeocoder(COUNTRY_BOUNDARIES_FILE, REGION_BOUNDARIES_FILE);
+const loadFromSource = async () => loadDataset(dataSource, await geocoder);
+
+reloadDataset(loadFromSource, "startup");
+
+if (WATCH_DATA) {
+  watchDataPath(
+    DATA_SOURCE === "sqlite" ? SQLITE_FILE : DATA_DIR,
+    RELOAD_DEBOUNCE_MS,
+    (changed) => reloadDataset(loadFromSource, `${changed} changed`)
   );
 }
 
-// Notification configuration
-const NOTIFICATION_PROVIDER = process.env.NOTIFICATION_PROVIDER || "none";
-const NOTIFICATION_WEBHOOK_URL = process.env.NOTIFICATION_WEBHOOK_URL;
+// Load state lets clients tell "no data loaded yet" apart from "no results"
+app.get("/api/status", readable, (req, res) => {
+  res.json(getLoadState());
+});
 
-// Function to send notification
-async function sendNotification(message: string) {
-  if (NOTIFICATION_PROVIDER === "none" || !NOTIFICATION_WEBHOOK_URL) {
-    logger.info(
-      "Notification skipped: Provider set to none or webhook URL not provided"
-    );
+// Server-Sent Events stream of load state changes, starting with the current
+// state, so clients can refetch when a reload finishes instead of polling
+app.get("/api/events", readable, (req, res) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (state: LoadState) => {
+    res.write(`event: state\ndata: ${JSON.stringify(state)}\n\n`);
+  };
+  res.write(`retry: ${EVENT_RETRY_MS}\n\n`);
+  send(getLoadState());
+
+  const unsubscribe = onLoadStateChange(send);
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 30000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Accepted and rejected row counts per source file for the dataset being served
+app.get("/api/data-quality", readable, cacheable, (req, res) => {
+  res.json(getDataset().quality);
+});
+
+// What the server loaded and how, for the methodology page
+app.get("/api/metadata", readable, (req, res) => {
+  res.json(describeDataset(getDataset(), getLoadState(), dataSource.name));
+});
+
+app.post("/api/admin/reload", admin, async (req, res) => {
+  try {
+    const state = await reloadDataset(loadFromSource, "admin request");
+    res.status(state.status === "failed" ? 500 : 200).json(state);
+  } catch (error) {
+    logger.error("Error reloading data:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Send a sample notification, e.g. to check channel settings against a stub
+// server (npm run stub-webhook); ?channel= limits it to one channel
+app.post("/api/admin/notifications/test", admin, (req, res) => {
+  const { channel } = req.query;
+  const channels = notifier.sendTest(
+    typeof channel === "string" ? channel : undefined
+  );
+  if (channels.length === 0) {
+    res.status(404).json({ message: "No matching notification channels" });
     return;
   }
+  res.status(202).json({ queued: channels });
+});
 
+app.get("/api/internet-speeds", readable, cacheable, async (req, res) => {
   try {
-    let payload;
-    switch (NOTIFICATION_PROVIDER) {
-      case "discord":
-        payload = { content: message };
-        break;
-      case "slack":
-        payload = { text: message };
-        break;
-      case "generic":
-        payload = { message: message };
-        break;
-      default:
-        logger.warn(`Unknown notification provider: ${NOTIFICATION_PROVIDER}`);
+    const query = parseSpeedQuery(req.query);
+    res.json(querySpeedData(getDataset().records, query));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving internet speeds:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Same filters as /api/internet-speeds, but returns every match unless a limit is given
+app.get(
+  "/api/internet-speeds.geojson",
+  readable,
+  cacheable,
+  async (req, res) => {
+    try {
+      const { data } = querySpeedData(
+        getDataset().records,
+        parseSpeedQuery(req.query, {
+          defaultLimit: UNLIMITED,
+          limitRange: PARAMETER_RANGES.bulkLimit,
+        })
+      );
+      res.type("application/geo+json").json(toFeatureCollection(data));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json(error);
         return;
+      }
+      logger.error("Error serving internet speeds GeoJSON:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
+  }
+);
+
+app.get("/api/export", requireScope("export"), cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const format = parser.oneOf("format", EXPORT_FORMATS) ?? "csv";
+    const method = parser.oneOf("method", RANKING_METHODS) ?? "raw";
+    parser.assertValid();
+    const query = parseSpeedQuery(req.query, {
+      defaultLimit: UNLIMITED,
+      limitRange: PARAMETER_RANGES.bulkLimit,
+    });
+    const dataset = getDataset();
+    // Adjusted exports follow the sample-adjusted rankings table
+    const data =
+      method === "adjusted"
+        ? sortByRankingScore(
+            dataset,
+            filterSpeedData(dataset.records, query),
+            { sort: query.sort, method, priorTests: RANKING_PRIOR_TESTS },
+            query.order
+          ).slice(query.offset, query.offset + query.limit)
+        : querySpeedData(dataset.records, query).data;
+    const file = await exportSpeedData(data, query, format, method);
 
-    await axios.post(NOTIFICATION_WEBHOOK_URL, payload);
-    logger.info(`${NOTIFICATION_PROVIDER} notification sent successfully`);
+    res.type(file.contentType).attachment(file.fileName).send(file.body);
   } catch (error) {
-    logger.error(`Error sending ${NOTIFICATION_PROVIDER} notification:`, error);
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error exporting internet speeds:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
-}
+});
 
-interface SpeedData {
-  tile: string;
-  avgDownloadSpeed: number;
-  avgUploadSpeed: number;
-  avgLatency: number;
-  tests: number;
-  devices: number;
-  year: number;
-  quarter: number;
-}
+app.get("/tiles/:z/:x/:y.mvt", readable, cacheable, (req, res) => {
+  try {
+    // Route params are always present; the parser validates their range
+    const parser = new QueryParser({ ...req.query, ...req.params });
+    const z = parser.integer("z", PARAMETER_RANGES.tileZoom) ?? 0;
+    const x = parser.integer("x", PARAMETER_RANGES.tileCoordinate) ?? 0;
+    const y = parser.integer("y", PARAMETER_RANGES.tileCoordinate) ?? 0;
+    const filter = parseSpeedFilter(parser);
+    if (x >= 2 ** z || y >= 2 ** z) {
+      parser.issues.push({
+        parameter: "x",
+        message: `tile is outside zoom level ${z}`,
+      });
+    }
+    parser.assertValid();
 
-let globalSpeedData: SpeedData[] = [];
-
-const readCSV = (filePath: string): Promise<SpeedData[]> => {
-  return new Promise((resolve, reject) => {
-    const results: SpeedData[] = [];
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on("data", (data) => {
-        results.push({
-          tile: data.tile,
-          avgDownloadSpeed: parseFloat(data.avg_d_kbps) / 1000,
-          avgUploadSpeed: parseFloat(data.avg_u_kbps) / 1000,
-          avgLatency: parseFloat(data.avg_lat_ms),
-          tests: parseInt(data.tests),
-          devices: parseInt(data.devices),
-          year: parseInt(data.year),
-          quarter: parseInt(data.quarter),
-        });
-      })
-      .on("end", () => {
-        resolve(results);
+    const tile = getVectorTile(getDataset(), filter, z, x, y);
+    if (!tile) {
+      res.status(204).end();
+      return;
+    }
+    res.type("application/vnd.mapbox-vector-tile").send(Buffer.from(tile));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving vector tile:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/tiles", readable, cacheable, async (req, res) => {
+  try {
+    const tiles = [
+      ...new Set(getDataset().records.map((item) => item.quadkey)),
+    ];
+    res.json(tiles);
+  } catch (error) {
+    logger.error("Error serving tiles:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get(
+  "/api/internet-speeds/:quadkey",
+  readable,
+  cacheable,
+  async (req, res) => {
+    try {
+      const quadkey = req.params.quadkey;
+      const parser = new QueryParser(req.query);
+      const period = parsePeriod(parser);
+      const type = parser.oneOf("type", NETWORK_TYPES);
+      parser.assertValid();
+
+      // Serve the requested period, or the most recent one available for the tile
+      const tileData = getDataset()
+        .records.filter(
+          (item) =>
+            item.quadkey === quadkey &&
+            (!period || comparePeriods(item, period) === 0) &&
+            (!type || item.type === type)
+        )
+        .sort((a, b) => comparePeriods(b, a))[0];
+      if (tileData) {
+        res.json(tileData);
+      } else {
+        res.status(404).json({ message: "Tile not found" });
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json(error);
+        return;
+      }
+      logger.error("Error serving specific tile data:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+app.get("/api/aggregates", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const groupBy = parser.oneOf("groupBy", GROUP_BY_OPTIONS) ?? "country";
+    const zoom = parser.integer("zoom", PARAMETER_RANGES.aggregateZoom) ?? 8;
+    const filter = parseSpeedFilter(parser);
+    parser.assertValid();
+
+    res.json(
+      aggregateSpeedData(
+        filterSpeedData(getDataset().records, filter),
+        groupBy,
+        zoom
+      )
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving aggregates:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/stats", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const bins =
+      parser.integer("bins", PARAMETER_RANGES.histogramBins) ??
+      DEFAULT_HISTOGRAM_BINS;
+    const filter = parseSpeedFilter(parser);
+    parser.assertValid();
+
+    res.json({
+      filter,
+      ...computeSpeedStats(filterSpeedData(getDataset().records, filter), bins),
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving speed statistics:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Simplified country outlines used as an offline basemap
+app.get("/api/basemap.geojson", readable, (req, res) => {
+  if (!fs.existsSync(BASEMAP_FILE)) {
+    res.status(404).json({ message: "Basemap not available" });
+    return;
+  }
+  res
+    .type("application/geo+json")
+    .sendFile(BASEMAP_FILE, { maxAge: BASEMAP_MAX_AGE * 1000 });
+});
+
+app.get("/api/periods", readable, cacheable, async (req, res) => {
+  try {
+    res.json(getDataset().periods);
+  } catch (error) {
+    logger.error("Error serving periods:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/rankings", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const requested = parsePeriod(parser);
+    const type = parser.oneOf("type", NETWORK_TYPES) ?? "fixed";
+    const sort = parser.oneOf("sort", SORT_OPTIONS) ?? "download";
+    const method = parser.oneOf("method", RANKING_METHODS) ?? "raw";
+    const minTests = parser.integer("minTests", PARAMETER_RANGES.count) ?? 0;
+    const minDevices =
+      parser.integer("minDevices", PARAMETER_RANGES.count) ?? 0;
+    const limit = parser.integer("limit", PARAMETER_RANGES.rankingsLimit) ?? 10;
+    parser.assertValid();
+
+    const dataset = getDataset();
+    const period = selectPeriod(dataset, requested);
+    if (!period) {
+      res.json({ period: null, previousPeriod: null, method, data: [] });
+      return;
+    }
+
+    res.json(
+      rankSpeedData(dataset, period, {
+        type,
+        sort,
+        method,
+        minTests,
+        minDevices,
+        priorTests: RANKING_PRIOR_TESTS,
+        limit,
       })
-      .on("error", (error) => {
-        logger.error("Error reading CSV file:", error);
-        reject(error);
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving rankings:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/compare", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const requested = parsePeriod(parser);
+    const type = parser.oneOf("type", NETWORK_TYPES) ?? "fixed";
+    const ids =
+      typeof req.query.ids === "string"
+        ? req.query.ids.split(",").filter((id) => id !== "")
+        : [];
+    const refs: RegionRef[] = [];
+    for (const id of ids) {
+      const ref = parseRegionId(id);
+      if (ref) {
+        refs.push(ref);
+      } else {
+        parser.issues.push({
+          parameter: "ids",
+          message: `invalid region id "${id}", expected tile:<quadkey>, country:<code> or region:<code>:<name>`,
+        });
+      }
+    }
+    if (
+      new Set(refs.map((ref) => ref.id)).size !== ids.length ||
+      ids.length < MIN_COMPARE_REGIONS ||
+      ids.length > MAX_COMPARE_REGIONS
+    ) {
+      parser.issues.push({
+        parameter: "ids",
+        message: `must list ${MIN_COMPARE_REGIONS} to ${MAX_COMPARE_REGIONS} distinct region ids`,
+      });
+    }
+    parser.assertValid();
+
+    const dataset = getDataset();
+    const missing = refs.filter(
+      (ref) => !dataset.records.some(matchesRegion(ref))
+    );
+    if (missing.length > 0) {
+      res.status(404).json({
+        message: "Region not found",
+        ids: missing.map((ref) => ref.id),
+      });
+      return;
+    }
+
+    const period = selectPeriod(dataset, requested);
+    if (!period) {
+      res.status(404).json({ message: "No data loaded" });
+      return;
+    }
+
+    res.json(compareRegions(dataset, refs, period, type));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving comparison:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/search", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const q = parser.text("q", MAX_SEARCH_LENGTH) ?? "";
+    const limit = parser.integer("limit", PARAMETER_RANGES.searchLimit) ?? 10;
+    parser.assertValid();
+
+    res.json(searchRegions(getDataset(), q, limit));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving search:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/regions/:id", readable, cacheable, async (req, res) => {
+  try {
+    const parser = new QueryParser(req.query);
+    const requested = parsePeriod(parser);
+    const type = parser.oneOf("type", NETWORK_TYPES) ?? "fixed";
+    const ref = parseRegionId(req.params.id);
+    if (!ref) {
+      parser.issues.push({
+        parameter: "id",
+        message:
+          "expected tile:<quadkey>, country:<code> or region:<code>:<name>",
       });
+    }
+    parser.assertValid();
+
+    const dataset = getDataset();
+    const period = selectPeriod(dataset, requested);
+    if (!ref || !period || !dataset.records.some(matchesRegion(ref))) {
+      res.status(404).json({ message: "Region not found" });
+      return;
+    }
+
+    res.json(regionDetail(dataset, ref, period, type));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving region:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/trends", readable, cacheable, async (req, res) => {
+  try {
+    const { quadkey, country } = req.query;
+    const parser = new QueryParser(req.query);
+    const type = parser.oneOf("type", NETWORK_TYPES) ?? "fixed";
+    parser.assertValid();
+    if (typeof quadkey === "string" && quadkey !== "") {
+      res.json({
+        quadkey,
+        type,
+        series: buildTrend(
+          getDataset(),
+          type,
+          (item) => item.quadkey === quadkey
+        ),
+      });
+      return;
+    }
+    if (typeof country === "string" && country !== "") {
+      const countryCode = country.toUpperCase();
+      res.json({
+        country: countryCode,
+        type,
+        series: buildTrend(
+          getDataset(),
+          type,
+          (item) => item.countryCode === countryCode
+        ),
+      });
+      return;
+    }
+    throw new ValidationError([
+      {
+        parameter: "quadkey",
+        message: "either quadkey or country is required",
+      },
+    ]);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error serving trends:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Channels belong to the operator, so only callers with the admin scope
+// can route watchlist alerts to them; everyone else gets dashboard-only alerts
+const canNotify = (res: express.Response) =>
+  (res.locals.scopes as readonly ApiKeyScope[]).includes("admin");
+
+const channelsForbidden = (res: express.Response, input: WatchlistInput) => {
+  if (
+    canNotify(res) ||
+    input.alerts.every((alert) => alert.channels.length === 0)
+  ) {
+    return false;
+  }
+  res.status(403).json({
+    error:
+      "Delivering alerts to notification channels requires the admin scope",
   });
+  return true;
 };
 
-readCSV("./data/sample.csv")
-  .then((data) => {
-    globalSpeedData = data
-      .sort((a, b) => b.avgDownloadSpeed - a.avgDownloadSpeed)
-      .slice(0, 10);
-    logger.info("Data loaded successfully");
-  })
-  .catch((error) => {
-    logger.error("Error loading data:", error);
-  });
+// Channels the caller can deliver alerts to, without their settings
+app.get("/api/notification-channels", readable, (req, res) => {
+  res.json(canNotify(res) ? notifier.channels() : []);
+});
 
-app.get("/api/internet-speeds", async (req, res) => {
+// Watchlists are addressed by their random id, which the dashboard keeps
+app.post("/api/watchlists", readable, async (req, res) => {
   try {
-    await sendNotification("Website requested internet speeds data");
-    res.json(globalSpeedData);
+    const input = parseWatchlistInput(
+      req.body,
+      notifier.channels().map((channel) => channel.name)
+    );
+    if (channelsForbidden(res, input)) return;
+    const watchlist = await watchlists.create(input);
+    if (!watchlist) {
+      res.status(409).json({ message: "Watchlist limit reached" });
+      return;
+    }
+    // Saving evaluates the alerts against the current dataset right away
+    if (evaluateWatchlist(getDataset(), watchlist, notifier)) {
+      await watchlists.save();
+    }
+    res.status(201).json(watchlist);
   } catch (error) {
-    logger.error("Error serving internet speeds:", error);
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error creating watchlist:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.get("/api/tiles", async (req, res) => {
+app.get("/api/watchlists/:id", readable, (req, res) => {
+  const watchlist = watchlists.get(req.params.id);
+  if (!watchlist) {
+    res.status(404).json({ message: "Watchlist not found" });
+    return;
+  }
+  res.json(watchlist);
+});
+
+app.put("/api/watchlists/:id", readable, async (req, res) => {
   try {
-    await sendNotification("Website requested tiles data");
-    const tiles = [...new Set(globalSpeedData.map((item) => item.tile))];
-    res.json(tiles);
+    const input = parseWatchlistInput(
+      req.body,
+      notifier.channels().map((channel) => channel.name)
+    );
+    if (channelsForbidden(res, input)) return;
+    const watchlist = await watchlists.update(req.params.id, input);
+    if (!watchlist) {
+      res.status(404).json({ message: "Watchlist not found" });
+      return;
+    }
+    if (evaluateWatchlist(getDataset(), watchlist, notifier)) {
+      await watchlists.save();
+    }
+    res.json(watchlist);
   } catch (error) {
-    logger.error("Error serving tiles:", error);
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error updating watchlist:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-app.get("/api/internet-speeds/:tile", async (req, res) => {
+app.delete("/api/watchlists/:id", readable, async (req, res) => {
   try {
-    const tile = req.params.tile;
-    await sendNotification(`Website requested data for tile: ${tile}`);
-    const tileData = globalSpeedData.find((item) => item.tile === tile);
-    if (tileData) {
-      res.json(tileData);
-    } else {
-      res.status(404).json({ message: "Tile not found" });
+    if (!(await watchlists.remove(req.params.id))) {
+      res.status(404).json({ message: "Watchlist not found" });
+      return;
     }
+    res.status(204).end();
+  } catch (error) {
+    logger.error("Error deleting watchlist:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/admin/keys", admin, (req, res) => {
+  res.json(apiKeys.list());
+});
+
+// The key itself is only part of this response; the server keeps its hash
+app.post("/api/admin/keys", admin, (req, res) => {
+  try {
+    const { key, secret } = apiKeys.create(parseApiKeyInput(req.body));
+    res.status(201).json({ ...key, key: secret });
   } catch (error) {
-    logger.error("Error serving specific tile data:", error);
+    if (error instanceof ValidationError) {
+      res.status(400).json(error);
+      return;
+    }
+    logger.error("Error creating API key:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
+app.delete("/api/admin/keys/:id", admin, (req, res) => {
+  try {
+    const key = apiKeys.revoke(req.params.id);
+    if (!key) {
+      res.status(404).json({ message: "API key not found" });
+      return;
+    }
+    res.json(key);
+  } catch (error) {
+    logger.error("Error revoking API key:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/api/openapi.json", (req, res) => {
+  res.json(openApiDocument);
+});
+
+app.use(
+  "/api/docs",
+  swaggerUi.serve,
+  swaggerUi.setup(undefined, {
+    customSiteTitle: "Global Internet Speeds API",
+    swaggerOptions: { url: "/api/openapi.json" },
+  })
+);
+
 // Error handling middleware
 app.use(
   (
@@ -217,11 +851,31 @@ app.use(
     res: express.Response,
     next: express.NextFunction
   ) => {
+    if (err instanceof ValidationError) {
+      res.status(400).json(err);
+      return;
+    }
+    // Body parser errors, e.g. malformed JSON or an oversized body, are the
+    // client's fault and must not count toward the server error rate
+    const { type, status } = err as Error & { type?: string; status?: number };
+    if (
+      type === "entity.parse.failed" ||
+      (status !== undefined && status >= 400 && status < 500)
+    ) {
+      res
+        .status(400)
+        .json(
+          new ValidationError([{ parameter: "body", message: err.message }])
+        );
+      return;
+    }
     logger.error("Unhandled error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 );
 
-app.listen(port, () => {
-  logger.info(`Server running on port ${port}`);
+assertRoutesDocumented(app, openApiDocument);
+
+app.listen(PORT, () => {
+  logger.info(`Server running on port ${PORT}`);
 });
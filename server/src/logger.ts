@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import winston from "winston";
+import colors from "colors/safe";
+import { NODE_ENV } from "./config";
+
+// Ensure logs directory exists
+const logsDir = path.join(__dirname, "..", "logs");
+if (!fs.existsSync(logsDir)) {
+  fs.mkdirSync(logsDir);
+}
+
+// Custom format for colored console output
+const coloredFormat = winston.format.printf(({ level, message, timestamp }) => {
+  let coloredLevel;
+  switch (level) {
+    case "info":
+      coloredLevel = colors.green(level);
+      break;
+    case "warn":
+      coloredLevel = colors.yellow(level);
+      break;
+    case "error":
+      coloredLevel = colors.red(level);
+      break;
+    default:
+      coloredLevel = level;
+  }
+  return `${colors.gray(timestamp)} ${coloredLevel}: ${message}`;
+});
+
+// Custom format for production console output
+const productionFormat = winston.format.printf(
+  ({ level, message, timestamp }) => {
+    return `${timestamp} ${level}: ${message}`;
+  }
+);
+
+// Configure Winston logger
+export const logger = winston.createLogger({
+  level: "info",
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.File({
+      filename: path.join(logsDir, "error.log"),
+      level: "error",
+    }),
+    new winston.transports.File({
+      filename: path.join(logsDir, "combined.log"),
+    }),
+  ],
+});
+
+// Add console transport for all environments
+if (NODE_ENV === "production") {
+  logger.add(
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        productionFormat
+      ),
+    })
+  );
+} else {
+  logger.add(
+    new winston.transports.Console({
+      format: winston.format.combine(winston.format.timestamp(), coloredFormat),
+    })
+  );
+}
@@ -0,0 +1,94 @@
+import { Dataset } from "./dataset";
+import { Period, periodKey } from "./period";
+import { FIELD_MAPPINGS, FieldMapping, MAX_LATENCY_MS } from "./sources/rows";
+import { LoadState } from "./store";
+import { NetworkType } from "./types";
+
+export interface Coverage {
+  tiles: number;
+  tests: number;
+  devices: number;
+  countries: number;
+}
+
+export interface PeriodCoverage extends Period {
+  fixed: Coverage;
+  mobile: Coverage;
+}
+
+export interface SourceFile {
+  source: string;
+  rows: number;
+  accepted: number;
+  rejected: number;
+}
+
+export interface DatasetMetadata {
+  dataSource: string;
+  status: LoadState["status"];
+  loadedAt: string | null;
+  records: number;
+  rejected: number;
+  files: SourceFile[];
+  // First and last period loaded, null before any data is loaded
+  firstPeriod: Period | null;
+  lastPeriod: Period | null;
+  periods: PeriodCoverage[];
+  coverage: Record<NetworkType, Coverage>;
+  fields: FieldMapping[];
+  validation: {
+    maxLatencyMs: number;
+  };
+}
+
+const coverage = (records: Dataset["records"], type: NetworkType): Coverage => {
+  const matching = records.filter((item) => item.type === type);
+  return {
+    tiles: matching.length,
+    tests: matching.reduce((sum, item) => sum + item.tests, 0),
+    devices: matching.reduce((sum, item) => sum + item.devices, 0),
+    countries: new Set(
+      matching.flatMap((item) => (item.countryCode ? [item.countryCode] : []))
+    ).size,
+  };
+};
+
+// Describe the dataset being served, straight from what was loaded, so the
+// methodology page cannot drift from the data
+export function describeDataset(
+  dataset: Dataset,
+  state: LoadState,
+  dataSource: string
+): DatasetMetadata {
+  return {
+    dataSource,
+    status: state.status,
+    loadedAt: state.loadedAt,
+    records: dataset.records.length,
+    rejected: dataset.quality.rejected,
+    files: dataset.quality.sources.map(
+      ({ source, rows, accepted, rejected }) => ({
+        source,
+        rows,
+        accepted,
+        rejected,
+      })
+    ),
+    firstPeriod: dataset.periods[0] ?? null,
+    lastPeriod: dataset.periods[dataset.periods.length - 1] ?? null,
+    periods: dataset.periods.map((period) => {
+      const records = dataset.byPeriod.get(periodKey(period)) ?? [];
+      return {
+        ...period,
+        fixed: coverage(records, "fixed"),
+        mobile: coverage(records, "mobile"),
+      };
+    }),
+    coverage: {
+      fixed: coverage(dataset.records, "fixed"),
+      mobile: coverage(dataset.records, "mobile"),
+    },
+    fields: FIELD_MAPPINGS,
+    validation: { maxLatencyMs: MAX_LATENCY_MS },
+  };
+}
@@ -0,0 +1,292 @@
+import crypto from "crypto";
+import axios from "axios";
+import nodemailer from "nodemailer";
+import { html, htmlDocument, markdown, plainText } from "./format";
+import { formatSpeed, Notification, NotificationEvent } from "./message";
+
+export const CHANNEL_PROVIDERS = [
+  "discord",
+  "slack",
+  "teams",
+  "telegram",
+  "matrix",
+  "email",
+  "ntfy",
+  "gotify",
+  "generic",
+] as const;
+export type ChannelProvider = (typeof CHANNEL_PROVIDERS)[number];
+
+// Every URL is configurable so channels can be pointed at a local stub server
+export type ChannelConfig =
+  | { provider: "discord" | "slack" | "teams" | "generic"; url: string }
+  | {
+      provider: "telegram";
+      botToken: string;
+      chatId: string;
+      apiUrl?: string;
+    }
+  | {
+      provider: "matrix";
+      homeserverUrl: string;
+      roomId: string;
+      accessToken: string;
+    }
+  | {
+      provider: "email";
+      host: string;
+      // Defaults to 587, or 465 when secure
+      port?: number;
+      secure?: boolean;
+      username?: string;
+      password?: string;
+      from: string;
+      to: string[];
+    }
+  | { provider: "ntfy"; url: string; topic: string; token?: string }
+  | { provider: "gotify"; url: string; token: string; priority?: number };
+
+// Required string settings per provider, checked when the config is loaded
+export const CHANNEL_SETTINGS: Record<ChannelProvider, string[]> = {
+  discord: ["url"],
+  slack: ["url"],
+  teams: ["url"],
+  generic: ["url"],
+  telegram: ["botToken", "chatId"],
+  matrix: ["homeserverUrl", "roomId", "accessToken"],
+  email: ["host", "from"],
+  ntfy: ["url", "topic"],
+  gotify: ["url", "token"],
+};
+
+export interface Channel {
+  readonly name: string;
+  readonly provider: ChannelProvider;
+  send(notification: Notification): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+const TRIGGER_COLORS: Record<NotificationEvent, number> = {
+  dataset_reloaded: 0x2563eb,
+  new_period: 0x16a34a,
+  load_failed: 0xdc2626,
+  region_below: 0xd97706,
+  error_rate: 0xdc2626,
+  watchlist_alert: 0xd97706,
+};
+
+const topRegionsText = (notification: Notification) =>
+  notification.topRegions
+    .map(
+      (region, index) =>
+        `${index + 1}. ${region.name} — ${formatSpeed(region.download)}`
+    )
+    .join("\n");
+
+const discordPayload = (notification: Notification) => ({
+  embeds: [
+    {
+      title: notification.title,
+      description: notification.text,
+      color: TRIGGER_COLORS[notification.trigger],
+      fields: [
+        ...notification.fields.map((field) => ({
+          name: field.label,
+          value: field.value,
+          inline: true,
+        })),
+        ...(notification.topRegions.length > 0
+          ? [{ name: "Top countries", value: topRegionsText(notification) }]
+          : []),
+      ],
+      timestamp: new Date().toISOString(),
+    },
+  ],
+});
+
+const slackPayload = (notification: Notification) => ({
+  // Shown in push notifications and clients without Block Kit
+  text: `${notification.title}: ${notification.text}`,
+  blocks: [
+    {
+      type: "header",
+      text: { type: "plain_text", text: notification.title },
+    },
+    { type: "section", text: { type: "mrkdwn", text: notification.text } },
+    ...(notification.fields.length > 0
+      ? [
+          {
+            type: "section",
+            fields: notification.fields.map((field) => ({
+              type: "mrkdwn",
+              text: `*${field.label}*\n${field.value}`,
+            })),
+          },
+        ]
+      : []),
+    ...(notification.topRegions.length > 0
+      ? [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*Top countries*\n${topRegionsText(notification)}`,
+            },
+          },
+        ]
+      : []),
+  ],
+});
+
+// Adaptive Card, as accepted by Teams workflow webhooks
+const teamsPayload = (notification: Notification) => ({
+  type: "message",
+  attachments: [
+    {
+      contentType: "application/vnd.microsoft.card.adaptive",
+      content: {
+        type: "AdaptiveCard",
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        version: "1.4",
+        body: [
+          {
+            type: "TextBlock",
+            text: notification.title,
+            weight: "Bolder",
+            size: "Medium",
+          },
+          { type: "TextBlock", text: notification.text, wrap: true },
+          {
+            type: "FactSet",
+            facts: [
+              ...notification.fields.map((field) => ({
+                title: field.label,
+                value: field.value,
+              })),
+              ...notification.topRegions.map((region, index) => ({
+                title: `#${index + 1} ${region.name}`,
+                value: formatSpeed(region.download),
+              })),
+            ],
+          },
+        ],
+      },
+    },
+  ],
+});
+
+const genericPayload = (notification: Notification) => ({
+  message: plainText(notification),
+  title: notification.title,
+  trigger: notification.trigger,
+  rule: notification.ruleId,
+  fields: notification.fields,
+  topRegions: notification.topRegions,
+  variables: notification.variables,
+});
+
+const post = (url: string, body: unknown, headers?: Record<string, string>) =>
+  axios.post(url, body, { timeout: DELIVERY_TIMEOUT_MS, headers });
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+const sender = (
+  config: ChannelConfig
+): ((notification: Notification) => Promise<unknown>) => {
+  switch (config.provider) {
+    case "discord":
+      return (notification) => post(config.url, discordPayload(notification));
+    case "slack":
+      return (notification) => post(config.url, slackPayload(notification));
+    case "teams":
+      return (notification) => post(config.url, teamsPayload(notification));
+    case "generic":
+      return (notification) => post(config.url, genericPayload(notification));
+    case "telegram": {
+      const apiUrl = trimSlash(config.apiUrl ?? "https://api.telegram.org");
+      return (notification) =>
+        post(`${apiUrl}/bot${config.botToken}/sendMessage`, {
+          chat_id: config.chatId,
+          text: html(notification),
+          parse_mode: "HTML",
+        });
+    }
+    case "matrix":
+      return (notification) =>
+        axios.put(
+          `${trimSlash(config.homeserverUrl)}/_matrix/client/v3/rooms/${encodeURIComponent(
+            config.roomId
+          )}/send/m.room.message/${crypto.randomUUID()}`,
+          {
+            msgtype: "m.text",
+            body: plainText(notification),
+            format: "org.matrix.custom.html",
+            formatted_body: htmlDocument(notification),
+          },
+          {
+            timeout: DELIVERY_TIMEOUT_MS,
+            headers: { Authorization: `Bearer ${config.accessToken}` },
+          }
+        );
+    case "ntfy":
+      // JSON publishing keeps the title in the body; HTTP headers only carry
+      // Latin-1, which region and watchlist names often aren't
+      return (notification) =>
+        post(
+          trimSlash(config.url),
+          {
+            topic: config.topic,
+            title: notification.title,
+            message: markdown(notification),
+            tags: [notification.trigger],
+            markdown: true,
+          },
+          config.token ? { Authorization: `Bearer ${config.token}` } : {}
+        );
+    case "gotify":
+      return (notification) =>
+        post(
+          `${trimSlash(config.url)}/message`,
+          {
+            title: notification.title,
+            message: markdown(notification),
+            priority: config.priority ?? 5,
+            extras: { "client::display": { contentType: "text/markdown" } },
+          },
+          { "X-Gotify-Key": config.token }
+        );
+    case "email": {
+      const transport = nodemailer.createTransport({
+        host: config.host,
+        port: config.port ?? (config.secure ? 465 : 587),
+        secure: config.secure ?? config.port === 465,
+        auth: config.username
+          ? { user: config.username, pass: config.password }
+          : undefined,
+        connectionTimeout: DELIVERY_TIMEOUT_MS,
+      });
+      return (notification) =>
+        transport.sendMail({
+          from: config.from,
+          to: config.to,
+          subject: notification.title,
+          text: plainText(notification),
+          html: htmlDocument(notification),
+        });
+    }
+  }
+};
+
+// A destination in the provider's message format; failed deliveries reject
+// so the delivery queue can retry them
+export function createChannel(name: string, config: ChannelConfig): Channel {
+  const send = sender(config);
+  return {
+    name,
+    provider: config.provider,
+    async send(notification) {
+      await send(notification);
+    },
+  };
+}
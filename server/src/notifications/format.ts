@@ -0,0 +1,54 @@
+import { formatSpeed, Notification, TopRegion } from "./message";
+
+const topRegionLine = (region: TopRegion, index: number) =>
+  `${index + 1}. ${region.name}: ${formatSpeed(region.download)} down, ${formatSpeed(region.upload)} up, ${region.latency.toFixed(0)} ms`;
+
+export const plainText = (notification: Notification): string =>
+  [
+    notification.title,
+    notification.text,
+    ...notification.fields.map((field) => `${field.label}: ${field.value}`),
+    ...(notification.topRegions.length > 0
+      ? ["Top countries:", ...notification.topRegions.map(topRegionLine)]
+      : []),
+  ].join("\n");
+
+export const markdown = (notification: Notification): string =>
+  [
+    `**${notification.title}**`,
+    notification.text,
+    ...notification.fields.map(
+      (field) => `- **${field.label}:** ${field.value}`
+    ),
+    ...(notification.topRegions.length > 0
+      ? ["", "**Top countries**", ...notification.topRegions.map(topRegionLine)]
+      : []),
+  ].join("\n");
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const html = (notification: Notification): string =>
+  [
+    `<b>${escapeHtml(notification.title)}</b>`,
+    escapeHtml(notification.text),
+    ...notification.fields.map(
+      (field) => `<b>${escapeHtml(field.label)}:</b> ${escapeHtml(field.value)}`
+    ),
+    ...(notification.topRegions.length > 0
+      ? [
+          "<b>Top countries</b>",
+          ...notification.topRegions.map((region, index) =>
+            escapeHtml(topRegionLine(region, index))
+          ),
+        ]
+      : []),
+  ].join("\n");
+
+// Matrix and email render HTML rather than Telegram's subset, so need real line breaks
+export const htmlDocument = (notification: Notification): string =>
+  html(notification).split("\n").join("<br>\n");
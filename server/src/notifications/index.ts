@@ -0,0 +1,339 @@
+import express from "express";
+import { summarizeSpeedData } from "../aggregate";
+import { Dataset } from "../dataset";
+import { logger } from "../logger";
+import { periodKey } from "../period";
+import { matchesRegion, parseRegionId, regionName } from "../regions";
+import { getDataset, LoadState, onLoadStateChange } from "../store";
+import { Channel, ChannelProvider, createChannel } from "./channels";
+import {
+  formatSpeed,
+  Notification,
+  NotificationField,
+  renderTemplate,
+  TopRegion,
+  topRegions,
+} from "./message";
+import { createDeliveryQueue, QueueOptions } from "./queue";
+import {
+  ErrorRateRule,
+  NotificationConfig,
+  NotificationRule,
+  RegionBelowRule,
+  Trigger,
+} from "./rules";
+
+export interface Notifier {
+  // Counts responses for error_rate rules; never waits on delivery
+  requestMonitor(): express.RequestHandler;
+  // Queue a sample notification to every channel, or only the named one;
+  // returns the channels it was queued for
+  sendTest(channel?: string): string[];
+  // Queue a notification built elsewhere, such as a watchlist alert
+  deliver(channels: string[], notification: Notification): void;
+  channels(): { name: string; provider: ChannelProvider }[];
+}
+
+// Default rendering of a rule's notification, before templates apply
+interface Content {
+  title: string;
+  text: string;
+  fields?: NotificationField[];
+  topRegions?: TopRegion[];
+  variables: Record<string, string | number>;
+}
+
+interface RequestBucket {
+  second: number;
+  requests: number;
+  failures: number;
+}
+
+// Running request and failure counts over the last windowSeconds, kept in
+// one-second buckets so recording a response costs the same however busy the
+// server is
+const createRequestWindow = (windowSeconds: number) => {
+  const buckets: RequestBucket[] = [];
+  const totals = { requests: 0, failures: 0 };
+  return {
+    record(now: number, failed: boolean) {
+      const second = Math.floor(now / 1000);
+      let current = buckets[buckets.length - 1];
+      if (!current || current.second !== second) {
+        current = { second, requests: 0, failures: 0 };
+        buckets.push(current);
+      }
+      current.requests += 1;
+      totals.requests += 1;
+      if (failed) {
+        current.failures += 1;
+        totals.failures += 1;
+      }
+      while (buckets[0].second <= second - windowSeconds) {
+        const expired = buckets.shift() as RequestBucket;
+        totals.requests -= expired.requests;
+        totals.failures -= expired.failures;
+      }
+      return totals;
+    },
+  };
+};
+
+const toNotification = (
+  rule: NotificationRule,
+  content: Content
+): Notification => {
+  const variables = {
+    rule: rule.id,
+    trigger: rule.trigger,
+    ...content.variables,
+  };
+  return {
+    trigger: rule.trigger,
+    ruleId: rule.id,
+    title: rule.title ? renderTemplate(rule.title, variables) : content.title,
+    text: rule.template
+      ? renderTemplate(rule.template, variables)
+      : content.text,
+    fields: content.fields ?? [],
+    topRegions: content.topRegions ?? [],
+    variables,
+  };
+};
+
+// Evaluate the configured rules against load state changes and responses and
+// hand matching notifications to the delivery queue
+export function createNotifier(
+  config: NotificationConfig,
+  queueOptions: QueueOptions
+): Notifier {
+  const queue = createDeliveryQueue(queueOptions);
+  const channels = new Map<string, Channel>(
+    Object.entries(config.channels).map(([name, channel]) => [
+      name,
+      createChannel(name, channel),
+    ])
+  );
+  const rulesFor = <T extends NotificationRule>(trigger: Trigger) =>
+    config.rules.filter((rule) => rule.trigger === trigger) as T[];
+
+  // When each rule last fired per subject, for throttling and deduplication
+  const lastSent = new Map<string, number>();
+
+  const notify = (
+    rule: NotificationRule,
+    subject: string,
+    content: Content
+  ) => {
+    const key = `${rule.id}:${subject}`;
+    const now = Date.now();
+    const previous = lastSent.get(key);
+    if (
+      previous !== undefined &&
+      now - previous < rule.throttleSeconds * 1000
+    ) {
+      logger.info(`Notification for rule ${rule.id} throttled`);
+      return;
+    }
+    lastSent.set(key, now);
+    const notification = toNotification(rule, content);
+    for (const name of rule.channels) {
+      queue.enqueue(channels.get(name) as Channel, notification);
+    }
+  };
+
+  // Period key each region_below rule last fired for while the region stayed
+  // below its threshold, so a rule fires once per drop rather than per reload
+  const below = new Map<string, string>();
+
+  const checkRegion = (rule: RegionBelowRule, dataset: Dataset) => {
+    const period = dataset.periods[dataset.periods.length - 1];
+    if (!period) return;
+    const ref = parseRegionId(rule.region);
+    if (!ref) return;
+    const matches = matchesRegion(ref);
+    const records = (dataset.byPeriod.get(periodKey(period)) ?? []).filter(
+      (item) => item.type === rule.type && matches(item)
+    );
+    const summary = summarizeSpeedData(records);
+    if (!summary) return;
+    const value =
+      rule.metric === "download"
+        ? summary.avgDownloadSpeed
+        : summary.avgUploadSpeed;
+    if (value >= rule.thresholdMbps) {
+      below.delete(rule.id);
+      return;
+    }
+    const key = periodKey(period);
+    if (below.get(rule.id) === key) return;
+    below.set(rule.id, key);
+    const name = regionName(ref, records[0]);
+    notify(rule, key, {
+      title: `${name} ${rule.metric} below ${formatSpeed(rule.thresholdMbps)}`,
+      text: `${name} averaged ${formatSpeed(value)} ${rule.type} ${rule.metric} in ${key}.`,
+      fields: [
+        { label: "Download", value: formatSpeed(summary.avgDownloadSpeed) },
+        { label: "Upload", value: formatSpeed(summary.avgUploadSpeed) },
+        { label: "Latency", value: `${summary.avgLatency.toFixed(0)} ms` },
+        { label: "Tests", value: summary.tests.toLocaleString("en-US") },
+      ],
+      variables: {
+        region: ref.id,
+        name,
+        metric: rule.metric,
+        type: rule.type,
+        value: value.toFixed(2),
+        threshold: rule.thresholdMbps,
+        period: key,
+      },
+    });
+  };
+
+  let previous: Dataset | null = null;
+
+  const datasetLoaded = (state: LoadState) => {
+    const dataset = getDataset();
+    if (dataset === previous) return;
+
+    const latest = dataset.periods[dataset.periods.length - 1];
+    const latestPeriod = latest ? periodKey(latest) : "none";
+    for (const rule of rulesFor("dataset_reloaded")) {
+      notify(rule, dataset.version, {
+        title: "Dataset reloaded",
+        text: `Now serving ${state.records.toLocaleString("en-US")} records across ${state.periods} periods.`,
+        fields: [
+          { label: "Latest period", value: latestPeriod },
+          {
+            label: "Rejected rows",
+            value: dataset.quality.rejected.toLocaleString("en-US"),
+          },
+          { label: "Version", value: dataset.version },
+        ],
+        topRegions: topRegions(
+          latest ? (dataset.byPeriod.get(latestPeriod) ?? []) : []
+        ),
+        variables: {
+          records: state.records,
+          periods: state.periods,
+          latestPeriod,
+          rejected: dataset.quality.rejected,
+          version: dataset.version,
+        },
+      });
+    }
+
+    // Every period is new on the first load, which is not worth announcing
+    if (previous) {
+      const known = new Set(previous.periods.map(periodKey));
+      const added = dataset.periods
+        .map(periodKey)
+        .filter((key) => !known.has(key));
+      for (const key of added) {
+        const records = dataset.byPeriod.get(key) ?? [];
+        for (const rule of rulesFor("new_period")) {
+          notify(rule, key, {
+            title: `New quarter ingested: ${key}`,
+            text: `${records.length.toLocaleString("en-US")} records added for ${key}.`,
+            topRegions: topRegions(records),
+            variables: { period: key, records: records.length },
+          });
+        }
+      }
+    }
+
+    for (const rule of rulesFor<RegionBelowRule>("region_below")) {
+      checkRegion(rule, dataset);
+    }
+    previous = dataset;
+  };
+
+  onLoadStateChange((state) => {
+    if (state.status === "ready") {
+      datasetLoaded(state);
+    } else if (state.status === "failed") {
+      for (const rule of rulesFor("load_failed")) {
+        notify(rule, "load", {
+          title: "Dataset load failed",
+          text: `The previous dataset is still being served. ${state.error}`,
+          variables: { error: state.error ?? "unknown error" },
+        });
+      }
+    }
+  });
+
+  const errorRules = rulesFor<ErrorRateRule>("error_rate").map((rule) => ({
+    rule,
+    window: createRequestWindow(rule.windowSeconds),
+  }));
+
+  const recordResponse = (failed: boolean) => {
+    const now = Date.now();
+    for (const { rule, window } of errorRules) {
+      const { requests, failures } = window.record(now, failed);
+      if (requests < rule.minRequests) continue;
+      const rate = failures / requests;
+      if (rate > rule.threshold) {
+        notify(rule, "errors", {
+          title: "High server error rate",
+          text: `${(rate * 100).toFixed(1)}% of requests failed over the last ${rule.windowSeconds} seconds.`,
+          fields: [
+            { label: "Failed requests", value: String(failures) },
+            { label: "Requests", value: String(requests) },
+          ],
+          variables: {
+            rate: (rate * 100).toFixed(1),
+            failures,
+            requests,
+            windowSeconds: rule.windowSeconds,
+          },
+        });
+      }
+    }
+  };
+
+  return {
+    requestMonitor() {
+      return (req, res, next) => {
+        if (errorRules.length > 0) {
+          res.on("finish", () => recordResponse(res.statusCode >= 500));
+        }
+        next();
+      };
+    },
+    sendTest(channel) {
+      const names = [...channels.keys()].filter(
+        (name) => channel === undefined || name === channel
+      );
+      const dataset = getDataset();
+      const latest = dataset.periods[dataset.periods.length - 1];
+      const notification: Notification = {
+        trigger: "dataset_reloaded",
+        ruleId: "test",
+        title: "Test notification",
+        text: "Notifications from the internet speeds server reach this channel.",
+        fields: [{ label: "Records", value: String(dataset.records.length) }],
+        topRegions: topRegions(
+          latest ? (dataset.byPeriod.get(periodKey(latest)) ?? []) : []
+        ),
+        variables: { rule: "test", trigger: "dataset_reloaded" },
+      };
+      for (const name of names) {
+        queue.enqueue(channels.get(name) as Channel, notification);
+      }
+      return names;
+    },
+    deliver(names, notification) {
+      for (const name of names) {
+        const channel = channels.get(name);
+        if (channel) {
+          queue.enqueue(channel, notification);
+        } else {
+          logger.warn(`Notification channel ${name} is no longer configured`);
+        }
+      }
+    },
+    channels: () =>
+      [...channels.values()].map(({ name, provider }) => ({ name, provider })),
+  };
+}
@@ -0,0 +1,91 @@
+import { aggregateSpeedData } from "../aggregate";
+import { SpeedData } from "../types";
+import { Trigger } from "./rules";
+
+export interface NotificationField {
+  label: string;
+  value: string;
+}
+
+export interface TopRegion {
+  name: string;
+  download: number;
+  upload: number;
+  latency: number;
+}
+
+// Rule triggers, plus alerts users define on their watchlists
+export type NotificationEvent = Trigger | "watchlist_alert";
+
+// What a rule produces; channels render it in their provider's format
+export interface Notification {
+  trigger: NotificationEvent;
+  ruleId: string;
+  title: string;
+  text: string;
+  fields: NotificationField[];
+  // Fastest countries by download speed, for triggers about the dataset
+  topRegions: TopRegion[];
+  variables: Record<string, string | number>;
+}
+
+// Variables available to templates of each trigger, besides rule and trigger
+export const TEMPLATE_VARIABLES: Record<Trigger, string[]> = {
+  dataset_reloaded: [
+    "records",
+    "periods",
+    "latestPeriod",
+    "rejected",
+    "version",
+  ],
+  load_failed: ["error"],
+  new_period: ["period", "records"],
+  region_below: [
+    "region",
+    "name",
+    "metric",
+    "type",
+    "value",
+    "threshold",
+    "period",
+  ],
+  error_rate: ["rate", "failures", "requests", "windowSeconds"],
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Names used in a template, e.g. ["region", "value"] for "{{region}} at {{value}}"
+export const templateVariables = (template: string): string[] => {
+  const names: string[] = [];
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    names.push(name);
+    return placeholder;
+  });
+  return names;
+};
+
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, string | number>
+): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in variables ? String(variables[name]) : placeholder
+  );
+
+const TOP_REGIONS = 5;
+
+export const topRegions = (records: SpeedData[]): TopRegion[] =>
+  aggregateSpeedData(
+    records.filter((item) => item.type === "fixed"),
+    "country",
+    0
+  )
+    .slice(0, TOP_REGIONS)
+    .map((group) => ({
+      name: group.name,
+      download: group.avgDownloadSpeed,
+      upload: group.avgUploadSpeed,
+      latency: group.avgLatency,
+    }));
+
+export const formatSpeed = (mbps: number) => `${mbps.toFixed(2)} Mbps`;
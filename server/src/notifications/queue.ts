@@ -0,0 +1,110 @@
+import { logger } from "../logger";
+import { Channel } from "./channels";
+import { Notification } from "./message";
+
+export interface QueueOptions {
+  maxAttempts: number;
+  // Delay before the first retry, doubled on every further attempt up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Messages kept per channel; the oldest are dropped beyond this, e.g.
+  // while the channel is down
+  maxSize: number;
+}
+
+export interface DeliveryQueue {
+  enqueue(channel: Channel, notification: Notification): void;
+  size(): number;
+}
+
+interface Job {
+  channel: Channel;
+  notification: Notification;
+  attempts: number;
+  notBefore: number;
+}
+
+interface Lane {
+  jobs: Job[];
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+}
+
+// Deliver messages in the background, retrying failures with exponential
+// backoff. Each channel has its own lane, delivered one message at a time, so
+// a slow or failing channel only holds up its own messages. Nothing here is
+// awaited by request handlers.
+export function createDeliveryQueue(options: QueueOptions): DeliveryQueue {
+  const lanes = new Map<string, Lane>();
+
+  const backoff = (attempts: number) =>
+    Math.min(options.baseDelayMs * 2 ** (attempts - 1), options.maxDelayMs);
+
+  const schedule = (lane: Lane) => {
+    if (lane.running || lane.jobs.length === 0) return;
+    if (lane.timer) clearTimeout(lane.timer);
+    const next = Math.min(...lane.jobs.map((job) => job.notBefore));
+    lane.timer = setTimeout(() => run(lane), Math.max(0, next - Date.now()));
+    // Pending retries should not keep the process alive on shutdown
+    lane.timer.unref();
+  };
+
+  const run = async (lane: Lane) => {
+    lane.timer = null;
+    lane.running = true;
+    try {
+      for (;;) {
+        const now = Date.now();
+        const index = lane.jobs.findIndex((job) => job.notBefore <= now);
+        if (index === -1) break;
+        const [job] = lane.jobs.splice(index, 1);
+        try {
+          await job.channel.send(job.notification);
+          logger.info(`Notification sent to ${job.channel.name}`);
+        } catch (error) {
+          job.attempts += 1;
+          if (job.attempts >= options.maxAttempts) {
+            logger.error(
+              `Giving up on notification to ${job.channel.name} after ${job.attempts} attempts:`,
+              error
+            );
+          } else {
+            job.notBefore = Date.now() + backoff(job.attempts);
+            lane.jobs.push(job);
+            logger.warn(
+              `Notification to ${job.channel.name} failed, retrying in ${backoff(job.attempts)} ms`
+            );
+          }
+        }
+      }
+    } finally {
+      lane.running = false;
+      schedule(lane);
+    }
+  };
+
+  return {
+    enqueue(channel, notification) {
+      let lane = lanes.get(channel.name);
+      if (!lane) {
+        lane = { jobs: [], timer: null, running: false };
+        lanes.set(channel.name, lane);
+      }
+      if (lane.jobs.length >= options.maxSize) {
+        lane.jobs.shift();
+        logger.warn(
+          `Notification queue for ${channel.name} full, dropped its oldest message`
+        );
+      }
+      lane.jobs.push({
+        channel,
+        notification,
+        attempts: 0,
+        notBefore: Date.now(),
+      });
+      schedule(lane);
+    },
+    size: () =>
+      [...lanes.values()].reduce((sum, lane) => sum + lane.jobs.length, 0),
+  };
+}
@@ -0,0 +1,350 @@
+import fs from "fs";
+import { logger } from "../logger";
+import { parseRegionId } from "../regions";
+import { NetworkType } from "../types";
+import {
+  CHANNEL_PROVIDERS,
+  CHANNEL_SETTINGS,
+  ChannelConfig,
+  ChannelProvider,
+} from "./channels";
+import { TEMPLATE_VARIABLES, templateVariables } from "./message";
+
+export const TRIGGERS = [
+  "dataset_reloaded",
+  "load_failed",
+  "new_period",
+  "region_below",
+  "error_rate",
+] as const;
+export type Trigger = (typeof TRIGGERS)[number];
+
+interface BaseRule {
+  id: string;
+  channels: string[];
+  // Minimum time between deliveries of the same rule and subject
+  throttleSeconds: number;
+  // Override the default title and text, with {{variable}} placeholders
+  title?: string;
+  template?: string;
+}
+
+export interface DatasetRule extends BaseRule {
+  trigger: "dataset_reloaded" | "load_failed" | "new_period";
+}
+
+// Fires when the region's latest-quarter average falls below the threshold
+export interface RegionBelowRule extends BaseRule {
+  trigger: "region_below";
+  region: string;
+  metric: "download" | "upload";
+  type: NetworkType;
+  thresholdMbps: number;
+}
+
+// Fires when the share of 5xx responses within the window exceeds the threshold
+export interface ErrorRateRule extends BaseRule {
+  trigger: "error_rate";
+  threshold: number;
+  windowSeconds: number;
+  minRequests: number;
+}
+
+export type NotificationRule = DatasetRule | RegionBelowRule | ErrorRateRule;
+
+export interface NotificationConfig {
+  channels: Record<string, ChannelConfig>;
+  rules: NotificationRule[];
+}
+
+const DEFAULT_THROTTLE_SECONDS = 300;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const positiveNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+// Check a rule from the config file, returning the problems found
+const ruleIssues = (
+  rule: JsonObject,
+  channels: Record<string, ChannelConfig>
+): string[] => {
+  const issues: string[] = [];
+  if (typeof rule.id !== "string" || rule.id === "") {
+    issues.push("id must be a non-empty string");
+  }
+  if (!TRIGGERS.includes(rule.trigger as Trigger)) {
+    issues.push(`trigger must be one of: ${TRIGGERS.join(", ")}`);
+  }
+  if (
+    !Array.isArray(rule.channels) ||
+    rule.channels.length === 0 ||
+    rule.channels.some((name) => typeof name !== "string" || !channels[name])
+  ) {
+    issues.push("channels must list channels defined in the config");
+  }
+  if (
+    rule.throttleSeconds !== undefined &&
+    !(typeof rule.throttleSeconds === "number" && rule.throttleSeconds >= 0)
+  ) {
+    issues.push("throttleSeconds must be a number of seconds");
+  }
+  for (const field of ["title", "template"]) {
+    const template = rule[field];
+    if (template === undefined) continue;
+    if (typeof template !== "string") {
+      issues.push(`${field} must be a string`);
+      continue;
+    }
+    const known = [
+      "rule",
+      "trigger",
+      ...(TEMPLATE_VARIABLES[rule.trigger as Trigger] ?? []),
+    ];
+    const unknown = templateVariables(template).filter(
+      (name) => !known.includes(name)
+    );
+    if (unknown.length > 0) {
+      issues.push(
+        `${field} uses unknown variables ${unknown.join(", ")}; available: ${known.join(", ")}`
+      );
+    }
+  }
+  if (rule.trigger === "region_below") {
+    if (typeof rule.region !== "string" || !parseRegionId(rule.region)) {
+      issues.push("region must be a region id such as country:NL");
+    }
+    if (rule.metric !== "download" && rule.metric !== "upload") {
+      issues.push("metric must be download or upload");
+    }
+    if (
+      rule.type !== undefined &&
+      rule.type !== "fixed" &&
+      rule.type !== "mobile"
+    ) {
+      issues.push("type must be fixed or mobile");
+    }
+    if (!positiveNumber(rule.thresholdMbps)) {
+      issues.push("thresholdMbps must be a positive number");
+    }
+  }
+  if (rule.trigger === "error_rate") {
+    if (!(
+      typeof rule.threshold === "number" &&
+      rule.threshold > 0 &&
+      rule.threshold <= 1
+    )) {
+      issues.push("threshold must be a fraction between 0 and 1");
+    }
+    if (!positiveNumber(rule.windowSeconds)) {
+      issues.push("windowSeconds must be a positive number");
+    }
+    if (rule.minRequests !== undefined && !positiveNumber(rule.minRequests)) {
+      issues.push("minRequests must be a positive number");
+    }
+  }
+  return issues;
+};
+
+const channelIssues = (channel: unknown): string[] => {
+  if (
+    !isObject(channel) ||
+    !CHANNEL_PROVIDERS.includes(channel.provider as ChannelProvider)
+  ) {
+    return [`provider must be one of: ${CHANNEL_PROVIDERS.join(", ")}`];
+  }
+  const issues = CHANNEL_SETTINGS[channel.provider as ChannelProvider]
+    .filter(
+      (setting) =>
+        typeof channel[setting] !== "string" || channel[setting] === ""
+    )
+    .map((setting) => `${setting} must be a non-empty string`);
+  if (
+    channel.provider === "email" &&
+    !(
+      Array.isArray(channel.to) &&
+      channel.to.length > 0 &&
+      channel.to.every((address) => typeof address === "string")
+    )
+  ) {
+    issues.push("to must list at least one address");
+  }
+  return issues;
+};
+
+const ENV_PATTERN = /\$\{(\w+)\}/g;
+
+// Secrets such as bot tokens can be kept out of the file as "${ENV_VAR}"
+const substituteEnv = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    return value.replace(ENV_PATTERN, (_, name: string) => {
+      const env = process.env[name];
+      if (env === undefined) {
+        throw new Error(
+          `Notification config references unset environment variable ${name}`
+        );
+      }
+      return env;
+    });
+  }
+  if (Array.isArray(value)) return value.map(substituteEnv);
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteEnv(item)])
+    );
+  }
+  return value;
+};
+
+const toRule = (rule: JsonObject): NotificationRule => {
+  const base = {
+    id: rule.id as string,
+    channels: rule.channels as string[],
+    throttleSeconds:
+      (rule.throttleSeconds as number | undefined) ?? DEFAULT_THROTTLE_SECONDS,
+    title: rule.title as string | undefined,
+    template: rule.template as string | undefined,
+  };
+  switch (rule.trigger as Trigger) {
+    case "region_below":
+      return {
+        ...base,
+        trigger: "region_below",
+        region: rule.region as string,
+        metric: rule.metric as "download" | "upload",
+        type: (rule.type as NetworkType | undefined) ?? "fixed",
+        thresholdMbps: rule.thresholdMbps as number,
+      };
+    case "error_rate":
+      return {
+        ...base,
+        trigger: "error_rate",
+        threshold: rule.threshold as number,
+        windowSeconds: rule.windowSeconds as number,
+        minRequests: (rule.minRequests as number | undefined) ?? 20,
+      };
+    default:
+      return { ...base, trigger: rule.trigger as DatasetRule["trigger"] };
+  }
+};
+
+export function parseNotificationConfig(raw: unknown): NotificationConfig {
+  const json = substituteEnv(raw);
+  if (
+    !isObject(json) ||
+    !isObject(json.channels) ||
+    !Array.isArray(json.rules)
+  ) {
+    throw new Error(
+      "Notification config must be an object with channels and rules"
+    );
+  }
+
+  const issues: string[] = [];
+  const channels: Record<string, ChannelConfig> = {};
+  for (const [name, channel] of Object.entries(json.channels)) {
+    const problems = channelIssues(channel);
+    if (problems.length > 0) {
+      issues.push(...problems.map((problem) => `channel ${name}: ${problem}`));
+      continue;
+    }
+    channels[name] = channel as ChannelConfig;
+  }
+
+  const rules: NotificationRule[] = [];
+  json.rules.forEach((rule, index) => {
+    if (!isObject(rule)) {
+      issues.push(`rule ${index}: must be an object`);
+      return;
+    }
+    const problems = ruleIssues(rule, channels);
+    if (problems.length > 0) {
+      issues.push(
+        ...problems.map((problem) => `rule ${rule.id ?? index}: ${problem}`)
+      );
+      return;
+    }
+    rules.push(toRule(rule));
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid notification config: ${issues.join("; ")}`);
+  }
+  return { channels, rules };
+}
+
+// Without a rules file, the webhooks from NOTIFICATION_PROVIDER and
+// NOTIFICATION_WEBHOOK_URL get dataset lifecycle notifications. Both take
+// comma-separated lists, paired up in order, for several webhooks at once.
+const defaultConfig = (
+  provider: string,
+  url: string | undefined
+): NotificationConfig => {
+  if (provider === "none" || !url) {
+    return { channels: {}, rules: [] };
+  }
+  const providers = provider.split(",").map((item) => item.trim());
+  const urls = url.split(",").map((item) => item.trim());
+  const channels: Record<string, ChannelConfig> = {};
+  providers.forEach((name, index) => {
+    if (!["discord", "slack", "teams", "generic"].includes(name)) {
+      logger.warn(`Unsupported webhook notification provider: ${name}`);
+      return;
+    }
+    if (!urls[index]) {
+      logger.warn(
+        `No webhook URL configured for notification provider ${name}`
+      );
+      return;
+    }
+    channels[`${name}-${index + 1}`] = {
+      provider: name as "discord" | "slack" | "teams" | "generic",
+      url: urls[index],
+    };
+  });
+  const names = Object.keys(channels);
+  if (names.length === 0) {
+    return { channels: {}, rules: [] };
+  }
+  return {
+    channels,
+    rules: [
+      {
+        id: "dataset-reloaded",
+        trigger: "dataset_reloaded",
+        channels: names,
+        throttleSeconds: 0,
+      },
+      {
+        id: "load-failed",
+        trigger: "load_failed",
+        channels: names,
+        throttleSeconds: DEFAULT_THROTTLE_SECONDS,
+      },
+      {
+        id: "new-period",
+        trigger: "new_period",
+        channels: names,
+        throttleSeconds: 0,
+      },
+    ],
+  };
+};
+
+export function loadNotificationConfig(
+  file: string,
+  provider: string,
+  url: string | undefined
+): NotificationConfig {
+  if (!fs.existsSync(file)) {
+    return defaultConfig(provider, url);
+  }
+  const config = parseNotificationConfig(
+    JSON.parse(fs.readFileSync(file, "utf8"))
+  );
+  logger.info(`Loaded ${config.rules.length} notification rules from ${file}`);
+  return config;
+}
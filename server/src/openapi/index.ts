@@ -0,0 +1,405 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import express from "express";
+import fs from "fs";
+import path from "path";
+import { ApiKeyScope } from "../api-keys";
+import { ValidationError, ValidationIssue } from "../errors";
+import { logger } from "../logger";
+import { HttpMethod, json, Operation, operations, ResponseSpec } from "./paths";
+import { ref, Schema, schemas } from "./schemas";
+
+export interface OpenApiOptions {
+  // Scopes callers get without a key, so the document shows which
+  // operations need one
+  anonymousScopes: ApiKeyScope[];
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
+
+const RATE_LIMIT_HEADERS = {
+  "RateLimit-Limit": "Requests allowed per window",
+  "RateLimit-Remaining": "Requests left in the current window",
+  "RateLimit-Reset": "Seconds until the window resets",
+  "RateLimit-Policy": "Limit and window length, e.g. 120;w=60",
+};
+
+// Responses every operation can give, added to the ones it lists
+const commonResponses = (
+  operation: Operation
+): Record<string, ResponseSpec> => ({
+  ...(operation.cacheable
+    ? {
+        304: { description: "Not modified since the dataset in If-None-Match" },
+      }
+    : {}),
+  ...(operation.parameters?.length || operation.requestBody
+    ? { 400: json(ref("ValidationError"), "Invalid request parameters") }
+    : {}),
+  ...(operation.scope
+    ? {
+        401: json(ref("Error"), "Missing or unknown API key"),
+        403: json(ref("Error"), `API key lacks the ${operation.scope} scope`),
+      }
+    : {}),
+  429: {
+    ...json(ref("Error"), "Rate limit exceeded"),
+    headers: {
+      "Retry-After": {
+        description: "Seconds until the window resets",
+        schema: { type: "integer" },
+      },
+      ...Object.fromEntries(
+        Object.keys(RATE_LIMIT_HEADERS).map((name) => [
+          name,
+          { $ref: `#/components/headers/${name}` },
+        ])
+      ),
+    },
+  } as ResponseSpec,
+  500: json(ref("Error"), "Internal server error"),
+});
+
+const responsesOf = (operation: Operation) => ({
+  ...commonResponses(operation),
+  ...operation.responses,
+});
+
+const packageVersion = (): string =>
+  JSON.parse(
+    fs.readFileSync(path.join(__dirname, "..", "..", "package.json"), "utf8")
+  ).version;
+
+// OpenAPI 3.1 document generated from the operation table, so the docs and
+// the request validation below describe the same API
+export function buildOpenApiDocument(options: OpenApiOptions) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    const security = operation.scope
+      ? [
+          ...(options.anonymousScopes.includes(operation.scope) ? [{}] : []),
+          { apiKey: [operation.scope] },
+          { bearer: [operation.scope] },
+        ]
+      : [];
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        tags: [operation.tag],
+        parameters: operation.parameters,
+        requestBody: operation.requestBody && {
+          required: true,
+          content: { "application/json": { schema: operation.requestBody } },
+        },
+        responses: responsesOf(operation),
+        security,
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Global Internet Speeds API",
+      version: packageVersion(),
+      description:
+        "Ookla Speedtest open data by tile, country and region. Every response carries RateLimit headers; send an API key in X-API-Key or as a bearer token for higher limits and the export and admin scopes.",
+    },
+    paths,
+    components: {
+      schemas,
+      headers: Object.fromEntries(
+        Object.entries(RATE_LIMIT_HEADERS).map(([name, description]) => [
+          name,
+          { description, schema: { type: "integer" } },
+        ])
+      ),
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
+
+interface CompiledOperation {
+  operation: Operation;
+  pattern: RegExp;
+  // Path parameter names in the order they appear in the template
+  names: string[];
+  query?: ValidateFunction;
+  params?: ValidateFunction;
+  body?: ValidateFunction;
+  responses: Map<string, ValidateFunction>;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Schema of the parameters of one location as an object, e.g. the query string
+const parametersSchema = (
+  operation: Operation,
+  location: "query" | "path"
+): Schema | null => {
+  const parameters = (operation.parameters ?? []).filter(
+    (parameter) => parameter.in === location
+  );
+  if (parameters.length === 0) return null;
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      parameters.map((parameter) => [parameter.name, parameter.schema])
+    ),
+    required: parameters
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name),
+  };
+};
+
+// "/alerts/0/threshold" -> "alerts[0].threshold"
+const parameterName = (instancePath: string) =>
+  instancePath
+    .split("/")
+    .slice(1)
+    .reduce(
+      (name, segment) =>
+        /^\d+$/.test(segment)
+          ? `${name}[${segment}]`
+          : name
+            ? `${name}.${segment}`
+            : segment,
+      ""
+    );
+
+// Ajv errors in the shape QueryParser reports, one issue per parameter.
+// Errors about the whole value are named after where it came from, e.g. "body".
+const toIssues = (
+  errors: ErrorObject[],
+  location: "query" | "path" | "body"
+): ValidationIssue[] => {
+  const issues = new Map<string, string>();
+  for (const error of errors) {
+    let parameter = parameterName(error.instancePath) || location;
+    let message = error.message ?? "is invalid";
+    const schema = error.parentSchema as Schema | undefined;
+    switch (error.keyword) {
+      case "required":
+        parameter = parameterName(
+          `${error.instancePath}/${error.params.missingProperty}`
+        );
+        message = "is required";
+        break;
+      case "enum":
+        message = `must be one of: ${error.params.allowedValues.join(", ")}`;
+        break;
+      case "type":
+      case "minimum":
+      case "maximum":
+        if (
+          schema?.type === "integer" &&
+          schema.minimum !== undefined &&
+          schema.maximum !== undefined
+        ) {
+          message = `must be an integer between ${schema.minimum} and ${schema.maximum}`;
+        }
+        break;
+      case "maxLength":
+        message = `must be at most ${error.params.limit} characters`;
+        break;
+      // Patterns read poorly, so parameters can carry their own message
+      case "pattern":
+        if (typeof schema?.["x-message"] === "string") {
+          message = schema["x-message"];
+        }
+        break;
+    }
+    if (!issues.has(parameter)) issues.set(parameter, message);
+  }
+  return [...issues].map(([parameter, message]) => ({ parameter, message }));
+};
+
+// Query strings give every value as a string and an empty one means "not
+// given", matching how QueryParser reads them
+const presentValues = (values: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== "")
+  );
+
+export interface SchemaValidationOptions {
+  // Log responses that don't match their documented schema; meant for
+  // development, as it costs a validation pass over every JSON response
+  validateResponses: boolean;
+}
+
+// Rejects requests that don't match the document with the same 400 body
+// route handlers give, and optionally warns about responses that drift from
+// it. Requests to undocumented paths pass through untouched.
+export function schemaValidation(
+  document: OpenApiDocument,
+  options: SchemaValidationOptions
+): express.RequestHandler {
+  const components = { components: { schemas: document.components.schemas } };
+  // Query and path values arrive as strings, so those are coerced; JSON
+  // bodies and responses are checked as sent
+  const strings = new Ajv2020({
+    strict: false,
+    allErrors: true,
+    coerceTypes: true,
+    verbose: true,
+  });
+  const values = new Ajv2020({ strict: false, allErrors: true, verbose: true });
+  // Formats such as date-time are enforced, not just documented
+  addFormats(strings);
+  addFormats(values);
+  const compile = (ajv: Ajv2020, schema: Schema) =>
+    ajv.compile({ ...components, ...schema });
+
+  const compiled: CompiledOperation[] = operations.map((operation) => {
+    const query = parametersSchema(operation, "query");
+    const params = parametersSchema(operation, "path");
+    const names: string[] = [];
+    const pattern = new RegExp(
+      `^${operation.path
+        .split(/(\{[^}]+\})/)
+        .map((part) => {
+          const name = /^\{([^}]+)\}$/.exec(part);
+          if (!name) return escapeRegExp(part);
+          names.push(name[1]);
+          return "([^/]+)";
+        })
+        .join("")}$`
+    );
+    const responseValidators = new Map<string, ValidateFunction>();
+    if (options.validateResponses) {
+      for (const [status, response] of Object.entries(responsesOf(operation))) {
+        // JSON media types, e.g. application/geo+json
+        const schema = Object.entries(response.content ?? {}).find(([type]) =>
+          /[/+]json$/.test(type)
+        )?.[1].schema;
+        if (schema) responseValidators.set(status, compile(values, schema));
+      }
+    }
+    return {
+      operation,
+      pattern,
+      names,
+      query: query ? compile(strings, query) : undefined,
+      params: params ? compile(strings, params) : undefined,
+      body: operation.requestBody
+        ? compile(values, operation.requestBody)
+        : undefined,
+      responses: responseValidators,
+    };
+  });
+
+  const validateResponse = (
+    route: CompiledOperation,
+    res: express.Response
+  ) => {
+    const json = res.json.bind(res);
+    // Bodies are checked as serialized, e.g. with dates as strings
+    res.json = (body: unknown) => {
+      const validate = route.responses.get(String(res.statusCode));
+      const { method, path: template } = route.operation;
+      if (!validate) {
+        logger.warn(
+          `Undocumented ${res.statusCode} response from ${method.toUpperCase()} ${template}`
+        );
+      } else if (!validate(JSON.parse(JSON.stringify(body)))) {
+        logger.warn(
+          `Response from ${method.toUpperCase()} ${template} doesn't match its schema:`,
+          toIssues(validate.errors ?? [], "body")
+        );
+      }
+      return json(body);
+    };
+  };
+
+  return (req, res, next) => {
+    const method = req.method.toLowerCase() as HttpMethod;
+    let route: CompiledOperation | undefined;
+    let match: RegExpExecArray | null = null;
+    for (const candidate of compiled) {
+      if (candidate.operation.method !== method) continue;
+      match = candidate.pattern.exec(req.path);
+      if (match) {
+        route = candidate;
+        break;
+      }
+    }
+    if (!route || !match) {
+      next();
+      return;
+    }
+
+    let params: Record<string, string>;
+    try {
+      params = Object.fromEntries(
+        route.names.map((name, i) => [
+          name,
+          decodeURIComponent((match as RegExpExecArray)[i + 1]),
+        ])
+      );
+    } catch (error) {
+      // Malformed escapes; Express answers these itself
+      next();
+      return;
+    }
+
+    const issues: ValidationIssue[] = [];
+    if (route.params && !route.params(params)) {
+      issues.push(...toIssues(route.params.errors ?? [], "path"));
+    }
+    if (route.query && !route.query(presentValues({ ...req.query }))) {
+      issues.push(...toIssues(route.query.errors ?? [], "query"));
+    }
+    if (route.body && !route.body(req.body)) {
+      issues.push(...toIssues(route.body.errors ?? [], "body"));
+    }
+    if (issues.length > 0) {
+      next(new ValidationError(issues));
+      return;
+    }
+
+    if (options.validateResponses) validateResponse(route, res);
+    next();
+  };
+}
+
+// Fails startup when a route is added, removed or renamed without updating
+// the operation table, so the published document can't fall behind
+export function assertRoutesDocumented(
+  app: express.Express,
+  document: OpenApiDocument
+) {
+  const documented = new Set(
+    Object.entries(document.paths).flatMap(([template, methods]) =>
+      Object.keys(methods).map((method) => `${method} ${template}`)
+    )
+  );
+  const registered = new Set<string>();
+  for (const layer of app._router.stack) {
+    if (!layer.route) continue;
+    const template = String(layer.route.path).replace(/:(\w+)/g, "{$1}");
+    for (const method of Object.keys(layer.route.methods)) {
+      registered.add(`${method} ${template}`);
+    }
+  }
+  const undocumented = [...registered].filter((key) => !documented.has(key));
+  const stale = [...documented].filter((key) => !registered.has(key));
+  if (undocumented.length > 0 || stale.length > 0) {
+    throw new Error(
+      [
+        undocumented.length > 0 &&
+          `Routes missing from the OpenAPI document: ${undocumented.join(", ")}`,
+        stale.length > 0 &&
+          `Documented routes that don't exist: ${stale.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join("; ")
+    );
+  }
+}
@@ -0,0 +1,656 @@
+import { ApiKeyScope } from "../api-keys";
+import {
+  COUNTRY_CODE_PATTERN,
+  IntegerRange,
+  MAX_SEARCH_LENGTH,
+  PARAMETER_RANGES,
+} from "../query";
+import { arrayOf, ENUMS, object, ref, Schema } from "./schemas";
+
+export type HttpMethod = "get" | "post" | "put" | "delete";
+
+export interface Parameter {
+  name: string;
+  in: "query" | "path";
+  required: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+export interface ResponseSpec {
+  description: string;
+  // Media type to schema; omitted for empty responses
+  content?: Record<string, { schema: Schema }>;
+}
+
+export interface Operation {
+  method: HttpMethod;
+  // OpenAPI path template, e.g. /api/regions/{id}
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  // Null for endpoints open to every caller
+  scope: ApiKeyScope | null;
+  // Served with ETags, so conditional requests may get a 304
+  cacheable?: boolean;
+  parameters?: Parameter[];
+  requestBody?: Schema;
+  responses: Record<string, ResponseSpec>;
+}
+
+const query = (
+  name: string,
+  schema: Schema,
+  description?: string,
+  required = false
+): Parameter => ({ name, in: "query", required, description, schema });
+
+const integerIn = ({ min, max }: IntegerRange): Schema => ({
+  type: "integer",
+  minimum: min,
+  maximum: max,
+});
+
+const path = (
+  name: string,
+  schema: Schema,
+  description?: string
+): Parameter => ({
+  name,
+  in: "path",
+  required: true,
+  description,
+  schema,
+});
+
+export const json = (schema: Schema, description = "OK"): ResponseSpec => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const notFound = (description: string) => json(ref("NotFound"), description);
+
+const networkType = query(
+  "type",
+  ref("NetworkType"),
+  "Network type, fixed by default"
+);
+
+const periodParameters = [
+  query(
+    "year",
+    integerIn(PARAMETER_RANGES.year),
+    "Year of the quarter; given together with quarter. Defaults to the latest quarter."
+  ),
+  query(
+    "quarter",
+    integerIn(PARAMETER_RANGES.quarter),
+    "Quarter of the year; given together with year"
+  ),
+];
+
+const filterParameters = [
+  query(
+    "minTests",
+    integerIn(PARAMETER_RANGES.count),
+    "Only tiles with at least this many tests"
+  ),
+  ...periodParameters,
+  query("type", ref("NetworkType")),
+  query(
+    "country",
+    {
+      type: "string",
+      pattern: COUNTRY_CODE_PATTERN.source,
+      "x-message": "must be a two-letter country code",
+    },
+    "ISO 3166-1 alpha-2 country code"
+  ),
+  query(
+    "bbox",
+    { type: "string" },
+    "Tiles intersecting west,south,east,north, in degrees"
+  ),
+];
+
+const pageParameters = (limitRange: IntegerRange, defaultLimit?: number) => [
+  query("sort", { enum: ENUMS.sort }, "Field to sort by, download by default"),
+  query("order", { enum: ENUMS.sortOrder }, "Sort order, desc by default"),
+  query(
+    "limit",
+    integerIn(limitRange),
+    defaultLimit
+      ? `Page size, ${defaultLimit} by default`
+      : "Page size; every match by default"
+  ),
+  query("offset", integerIn(PARAMETER_RANGES.count), "Matches to skip"),
+];
+
+const channelsForbidden = json(
+  ref("Error"),
+  "Alerts deliver to notification channels without the admin scope"
+);
+
+const regionId = {
+  type: "string",
+  pattern: "^(tile:[0-3]+|country:[A-Za-z]{2}|region:[A-Za-z]{2}:.+)$",
+  "x-message":
+    "expected tile:<quadkey>, country:<code> or region:<code>:<name>",
+};
+
+const REGION_ID_DESCRIPTION =
+  "tile:<quadkey>, country:<ISO code> or region:<ISO code>:<region name>";
+
+export const operations: Operation[] = [
+  {
+    method: "get",
+    path: "/api/status",
+    operationId: "getStatus",
+    summary: "Dataset load state",
+    description:
+      'Lets clients tell "no data loaded yet" apart from "no results".',
+    tag: "Dataset",
+    scope: "read",
+    responses: { 200: json(ref("LoadState")) },
+  },
+  {
+    method: "get",
+    path: "/api/events",
+    operationId: "streamEvents",
+    summary: "Stream of load state changes",
+    description:
+      "Server-Sent Events. Each `state` event carries a LoadState, starting with the current one; comments are sent every 30 seconds to keep the stream open.",
+    tag: "Dataset",
+    scope: "read",
+    responses: {
+      200: {
+        description: "Event stream",
+        content: { "text/event-stream": { schema: { type: "string" } } },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/data-quality",
+    operationId: "getDataQuality",
+    summary: "Accepted and rejected rows per source file",
+    tag: "Dataset",
+    scope: "read",
+    cacheable: true,
+    responses: { 200: json(ref("DataQualityReport")) },
+  },
+  {
+    method: "get",
+    path: "/api/metadata",
+    operationId: "getMetadata",
+    summary: "What was loaded and how",
+    description:
+      "Data source, coverage per quarter, field mappings and validation limits.",
+    tag: "Dataset",
+    scope: "read",
+    responses: { 200: json(ref("DatasetMetadata")) },
+  },
+  {
+    method: "get",
+    path: "/api/periods",
+    operationId: "listPeriods",
+    summary: "Quarters with data, oldest first",
+    tag: "Dataset",
+    scope: "read",
+    cacheable: true,
+    responses: { 200: json(arrayOf(ref("Period"))) },
+  },
+  {
+    method: "get",
+    path: "/api/internet-speeds",
+    operationId: "listInternetSpeeds",
+    summary: "Tiles matching the filters, one page at a time",
+    tag: "Speeds",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      ...filterParameters,
+      ...pageParameters(PARAMETER_RANGES.limit, 10),
+    ],
+    responses: { 200: json(ref("SpeedDataPage")) },
+  },
+  {
+    method: "get",
+    path: "/api/internet-speeds.geojson",
+    operationId: "getInternetSpeedsGeoJSON",
+    summary: "Tiles matching the filters as GeoJSON",
+    tag: "Speeds",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      ...filterParameters,
+      ...pageParameters(PARAMETER_RANGES.bulkLimit),
+    ],
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/geo+json": { schema: ref("SpeedFeatureCollection") },
+        },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/internet-speeds/{quadkey}",
+    operationId: "getTile",
+    summary: "One quarter of one tile",
+    tag: "Speeds",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      path("quadkey", { type: "string" }),
+      ...periodParameters,
+      query("type", ref("NetworkType"), "Network type; either by default"),
+    ],
+    responses: {
+      200: json(ref("SpeedData")),
+      404: notFound("No data for the tile"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/tiles",
+    operationId: "listTiles",
+    summary: "Quadkeys of every tile with data",
+    tag: "Speeds",
+    scope: "read",
+    cacheable: true,
+    responses: { 200: json(arrayOf({ type: "string" })) },
+  },
+  {
+    method: "get",
+    path: "/api/export",
+    operationId: "exportInternetSpeeds",
+    summary: "Download tiles matching the filters",
+    description:
+      "Returns every match unless a limit is given, as an attachment named after the filters.",
+    tag: "Speeds",
+    scope: "export",
+    cacheable: true,
+    parameters: [
+      query(
+        "format",
+        { enum: ENUMS.exportFormat },
+        "File format, csv by default"
+      ),
+      query(
+        "method",
+        { enum: ENUMS.rankingMethod },
+        "adjusted orders rows by sample-adjusted score, like the rankings; raw by default"
+      ),
+      ...filterParameters,
+      ...pageParameters(PARAMETER_RANGES.bulkLimit),
+    ],
+    responses: {
+      200: {
+        description: "Export file",
+        content: {
+          "text/csv": { schema: { type: "string" } },
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+            schema: {
+              type: "string",
+              contentMediaType: "application/octet-stream",
+            },
+          },
+          "application/json": {
+            schema: object({
+              metadata: { type: "object" },
+              data: arrayOf(ref("SpeedData")),
+            }),
+          },
+        },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/tiles/{z}/{x}/{y}.mvt",
+    operationId: "getVectorTile",
+    summary: "Mapbox vector tile of the tiles matching the filters",
+    description:
+      "Tiles are polygons from zoom 6; lower zooms carry each tile's centroid as a point.",
+    tag: "Map",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      path("z", integerIn(PARAMETER_RANGES.tileZoom), "Zoom level"),
+      path("x", integerIn(PARAMETER_RANGES.tileCoordinate)),
+      path("y", integerIn(PARAMETER_RANGES.tileCoordinate)),
+      ...filterParameters,
+    ],
+    responses: {
+      200: {
+        description: "Vector tile with a speeds layer",
+        content: {
+          "application/vnd.mapbox-vector-tile": {
+            schema: {
+              type: "string",
+              contentMediaType: "application/octet-stream",
+            },
+          },
+        },
+      },
+      204: { description: "No data in the tile" },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/basemap.geojson",
+    operationId: "getBasemap",
+    summary: "Country outlines for an offline basemap",
+    tag: "Map",
+    scope: "read",
+    responses: {
+      200: {
+        description: "Natural Earth 1:110m countries",
+        content: { "application/geo+json": { schema: { type: "object" } } },
+      },
+      404: notFound("No basemap file installed"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/aggregates",
+    operationId: "listAggregates",
+    summary: "Test-weighted averages per country, region or parent tile",
+    tag: "Analysis",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      query("groupBy", { enum: ENUMS.groupBy }, "country by default"),
+      query(
+        "zoom",
+        integerIn(PARAMETER_RANGES.aggregateZoom),
+        "Parent tile zoom when grouping by quadkey, 8 by default"
+      ),
+      ...filterParameters,
+    ],
+    responses: { 200: json(arrayOf(ref("AggregateGroup"))) },
+  },
+  {
+    method: "get",
+    path: "/api/stats",
+    operationId: "getStats",
+    summary: "Percentiles and histograms of the tiles matching the filters",
+    tag: "Analysis",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      query(
+        "bins",
+        integerIn(PARAMETER_RANGES.histogramBins),
+        "Histogram buckets, 20 by default"
+      ),
+      ...filterParameters,
+    ],
+    responses: { 200: json(ref("SpeedStats")) },
+  },
+  {
+    method: "get",
+    path: "/api/rankings",
+    operationId: "getRankings",
+    summary: "Top tiles of a quarter with their previous rank",
+    tag: "Analysis",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      ...periodParameters,
+      networkType,
+      query("sort", { enum: ENUMS.sort }, "download by default"),
+      query(
+        "method",
+        { enum: ENUMS.rankingMethod },
+        "raw ranks by tile averages; adjusted shrinks tiles with few tests toward the quarter average"
+      ),
+      query("minTests", integerIn(PARAMETER_RANGES.count)),
+      query("minDevices", integerIn(PARAMETER_RANGES.count)),
+      query(
+        "limit",
+        integerIn(PARAMETER_RANGES.rankingsLimit),
+        "10 by default"
+      ),
+    ],
+    responses: { 200: json(ref("Rankings")) },
+  },
+  {
+    method: "get",
+    path: "/api/trends",
+    operationId: "getTrend",
+    summary: "Quarter-by-quarter averages of a tile or country",
+    description: "Either quadkey or country is required.",
+    tag: "Analysis",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      query("quadkey", { type: "string" }),
+      query("country", { type: "string" }),
+      networkType,
+    ],
+    responses: { 200: json(ref("Trend")) },
+  },
+  {
+    method: "get",
+    path: "/api/compare",
+    operationId: "compareRegions",
+    summary: "Two to five regions side by side",
+    tag: "Regions",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      query(
+        "ids",
+        { type: "string" },
+        `Comma-separated region ids: ${REGION_ID_DESCRIPTION}`,
+        true
+      ),
+      ...periodParameters,
+      networkType,
+    ],
+    responses: {
+      200: json(ref("Comparison")),
+      404: json(
+        {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+            ids: arrayOf({ type: "string" }),
+          },
+          required: ["message"],
+        },
+        "Regions without data, or no data loaded"
+      ),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/search",
+    operationId: "searchRegions",
+    summary: "Countries and regions by name, tiles by quadkey prefix",
+    tag: "Regions",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      query("q", { type: "string", maxLength: MAX_SEARCH_LENGTH }),
+      query("limit", integerIn(PARAMETER_RANGES.searchLimit), "10 by default"),
+    ],
+    responses: { 200: json(arrayOf(ref("SearchResult"))) },
+  },
+  {
+    method: "get",
+    path: "/api/regions/{id}",
+    operationId: "getRegion",
+    summary:
+      "Rank, percentile position, trend, neighbours and country average of a region",
+    tag: "Regions",
+    scope: "read",
+    cacheable: true,
+    parameters: [
+      path("id", regionId, REGION_ID_DESCRIPTION),
+      ...periodParameters,
+      networkType,
+    ],
+    responses: {
+      200: json(ref("RegionDetail")),
+      404: notFound("No data for the region"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/notification-channels",
+    operationId: "listNotificationChannels",
+    summary: "Channels the caller can deliver watchlist alerts to",
+    description: "Empty for callers without the admin scope.",
+    tag: "Watchlists",
+    scope: "read",
+    responses: { 200: json(arrayOf(ref("NotificationChannel"))) },
+  },
+  {
+    method: "post",
+    path: "/api/watchlists",
+    operationId: "createWatchlist",
+    summary: "Save a watchlist",
+    description:
+      "Alerts are evaluated right away and whenever a new dataset is loaded. Keep the returned id; it is the only way to read or change the watchlist. Only callers with the admin scope can deliver alerts to notification channels.",
+    tag: "Watchlists",
+    scope: "read",
+    requestBody: ref("WatchlistInput"),
+    responses: {
+      201: json(ref("Watchlist"), "Created"),
+      403: channelsForbidden,
+      409: json(
+        ref("NotFound"),
+        "The server holds the maximum number of watchlists"
+      ),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/watchlists/{id}",
+    operationId: "getWatchlist",
+    summary: "A watchlist with its alerts' latest evaluations",
+    tag: "Watchlists",
+    scope: "read",
+    parameters: [path("id", { type: "string" })],
+    responses: {
+      200: json(ref("Watchlist")),
+      404: notFound("Unknown watchlist"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/watchlists/{id}",
+    operationId: "updateWatchlist",
+    summary: "Replace a watchlist",
+    tag: "Watchlists",
+    scope: "read",
+    parameters: [path("id", { type: "string" })],
+    requestBody: ref("WatchlistInput"),
+    responses: {
+      200: json(ref("Watchlist")),
+      403: channelsForbidden,
+      404: notFound("Unknown watchlist"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/watchlists/{id}",
+    operationId: "deleteWatchlist",
+    summary: "Delete a watchlist",
+    tag: "Watchlists",
+    scope: "read",
+    parameters: [path("id", { type: "string" })],
+    responses: {
+      204: { description: "Deleted" },
+      404: notFound("Unknown watchlist"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/admin/reload",
+    operationId: "reloadDataset",
+    summary: "Reload the dataset from its source",
+    tag: "Admin",
+    scope: "admin",
+    responses: {
+      200: json(ref("LoadState"), "Reloaded"),
+      500: json(
+        { anyOf: [ref("LoadState"), ref("Error")] },
+        "The load failed; the previous dataset is still served"
+      ),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/admin/notifications/test",
+    operationId: "testNotifications",
+    summary: "Send a sample notification",
+    tag: "Admin",
+    scope: "admin",
+    parameters: [
+      query(
+        "channel",
+        { type: "string" },
+        "Only this channel; every channel by default"
+      ),
+    ],
+    responses: {
+      202: json(object({ queued: arrayOf({ type: "string" }) }), "Queued"),
+      404: notFound("No matching channels"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/admin/keys",
+    operationId: "listApiKeys",
+    summary: "API keys, without their secrets",
+    tag: "Admin",
+    scope: "admin",
+    responses: { 200: json(arrayOf(ref("ApiKey"))) },
+  },
+  {
+    method: "post",
+    path: "/api/admin/keys",
+    operationId: "createApiKey",
+    summary: "Create an API key",
+    description: "The response is the only time the key itself is shown.",
+    tag: "Admin",
+    scope: "admin",
+    requestBody: ref("ApiKeyInput"),
+    responses: {
+      201: json(
+        { allOf: [ref("ApiKey"), object({ key: { type: "string" } })] },
+        "Created"
+      ),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/admin/keys/{id}",
+    operationId: "revokeApiKey",
+    summary: "Revoke an API key",
+    tag: "Admin",
+    scope: "admin",
+    parameters: [path("id", { type: "string" })],
+    responses: {
+      200: json(ref("ApiKey"), "Revoked"),
+      404: notFound("Unknown key"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/openapi.json",
+    operationId: "getOpenApiDocument",
+    summary: "This document",
+    tag: "Docs",
+    scope: null,
+    responses: { 200: json({ type: "object" }) },
+  },
+];
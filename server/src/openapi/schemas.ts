@@ -0,0 +1,428 @@
+import { GROUP_BY_OPTIONS } from "../aggregate";
+import { API_KEY_SCOPES, MAX_KEY_NAME_LENGTH } from "../api-keys";
+import { EXPORT_FORMATS } from "../export";
+import { CHANNEL_PROVIDERS } from "../notifications/channels";
+import { PARAMETER_RANGES, SORT_OPTIONS, SORT_ORDERS } from "../query";
+import { REJECTION_REASONS } from "../quality";
+import { RANKING_METHODS } from "../rankings";
+import { NETWORK_TYPES } from "../types";
+import {
+  ALERT_CONDITIONS,
+  ALERT_METRICS,
+  ALERT_STATISTICS,
+  MAX_WATCHLIST_ALERTS,
+  MAX_WATCHLIST_NAME_LENGTH,
+  MAX_WATCHLIST_REGIONS,
+} from "../watchlists";
+
+// JSON Schema (2020-12 dialect, as used by OpenAPI 3.1)
+export type Schema = Record<string, unknown>;
+
+export const ref = (name: string): Schema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+export const nullable = (schema: Schema): Schema => ({
+  anyOf: [schema, { type: "null" }],
+});
+
+// Every listed property is required unless named in optional
+export const object = (
+  properties: Record<string, Schema>,
+  optional: string[] = []
+): Schema => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties).filter((name) => !optional.includes(name)),
+});
+
+export const arrayOf = (items: Schema): Schema => ({ type: "array", items });
+
+const number: Schema = { type: "number" };
+const integer: Schema = { type: "integer" };
+const string: Schema = { type: "string" };
+const timestamp: Schema = { type: "string", format: "date-time" };
+
+const speedMetrics = {
+  avgDownloadSpeed: { ...number, description: "Mbps" },
+  avgUploadSpeed: { ...number, description: "Mbps" },
+  avgLatency: { ...number, description: "Milliseconds" },
+  tests: integer,
+  devices: integer,
+};
+
+const period = {
+  year: integer,
+  quarter: {
+    ...integer,
+    minimum: PARAMETER_RANGES.quarter.min,
+    maximum: PARAMETER_RANGES.quarter.max,
+  },
+};
+
+const changeFigures = object({
+  download: number,
+  upload: number,
+  latency: number,
+});
+
+export const ENUMS = {
+  networkType: NETWORK_TYPES,
+  sortOrder: SORT_ORDERS,
+  sort: SORT_OPTIONS,
+  groupBy: GROUP_BY_OPTIONS,
+  rankingMethod: RANKING_METHODS,
+  exportFormat: EXPORT_FORMATS,
+  regionKind: ["tile", "country", "region"],
+};
+
+export const schemas: Record<string, Schema> = {
+  Error: {
+    ...object({ error: string }),
+    description: "Authentication, rate limit and server errors",
+  },
+  NotFound: object({ message: string }),
+  ValidationError: {
+    ...object({
+      error: { const: "Invalid request parameters" },
+      details: arrayOf(object({ parameter: string, message: string })),
+    }),
+    description: "Every invalid parameter of the request, reported at once",
+  },
+  BoundingBox: object({
+    west: number,
+    south: number,
+    east: number,
+    north: number,
+  }),
+  Period: object(period),
+  NetworkType: { enum: ENUMS.networkType },
+  SpeedData: {
+    ...object({
+      quadkey: string,
+      tile: { ...string, description: "WKT polygon of the tile" },
+      zoom: integer,
+      bbox: ref("BoundingBox"),
+      centroid: object({ lat: number, lon: number }),
+      countryCode: nullable(string),
+      countryName: nullable(string),
+      region: nullable(string),
+      type: ref("NetworkType"),
+      ...speedMetrics,
+      ...period,
+    }),
+    description:
+      "Averages of one Ookla tile for one network type and quarter. Country and region are null outside the boundary data.",
+  },
+  SpeedDataPage: object({
+    data: arrayOf(ref("SpeedData")),
+    total: integer,
+    limit: integer,
+    offset: integer,
+    nextOffset: nullable(integer),
+  }),
+  SpeedSummary: object({ ...speedMetrics, tiles: integer }),
+  AggregateGroup: object({
+    key: string,
+    name: string,
+    countryCode: nullable(string),
+    bbox: ref("BoundingBox"),
+    ...speedMetrics,
+    tiles: integer,
+  }),
+  SpeedFilter: object(
+    {
+      minTests: integer,
+      year: integer,
+      quarter: integer,
+      type: ref("NetworkType"),
+      country: string,
+      bbox: ref("BoundingBox"),
+    },
+    ["year", "quarter", "type", "country", "bbox"]
+  ),
+  MetricDistribution: object({
+    mean: { ...number, description: "Weighted by tests" },
+    percentiles: object({
+      p10: number,
+      p25: number,
+      median: number,
+      p75: number,
+      p90: number,
+    }),
+    histogram: arrayOf(
+      object({ min: number, max: number, tiles: integer, tests: integer })
+    ),
+  }),
+  SpeedStats: object({
+    filter: ref("SpeedFilter"),
+    tiles: integer,
+    tests: integer,
+    devices: integer,
+    download: nullable(ref("MetricDistribution")),
+    upload: nullable(ref("MetricDistribution")),
+    latency: nullable(ref("MetricDistribution")),
+  }),
+  RankedSpeedData: {
+    allOf: [
+      ref("SpeedData"),
+      object({
+        rank: integer,
+        previousRank: nullable(integer),
+        score: number,
+        interval: nullable(object({ lower: number, upper: number })),
+      }),
+    ],
+  },
+  Rankings: object({
+    period: nullable(ref("Period")),
+    previousPeriod: nullable(ref("Period")),
+    method: { enum: ENUMS.rankingMethod },
+    data: arrayOf(ref("RankedSpeedData")),
+  }),
+  TrendPoint: object({
+    ...period,
+    ...speedMetrics,
+    tiles: integer,
+    change: {
+      ...nullable(changeFigures),
+      description: "Percent change from the preceding quarter",
+    },
+  }),
+  Trend: object(
+    {
+      quadkey: string,
+      country: string,
+      type: ref("NetworkType"),
+      series: arrayOf(ref("TrendPoint")),
+    },
+    ["quadkey", "country"]
+  ),
+  PercentilePosition: {
+    ...object({ download: number, upload: number, latency: number }),
+    description: "Percent of the quarter's tiles the region beats",
+  },
+  RegionComparison: object({
+    id: string,
+    kind: { enum: ENUMS.regionKind },
+    name: string,
+    countryCode: nullable(string),
+    summary: nullable(ref("SpeedSummary")),
+    position: nullable(ref("PercentilePosition")),
+    trend: arrayOf(ref("TrendPoint")),
+  }),
+  Comparison: object({
+    period: ref("Period"),
+    type: ref("NetworkType"),
+    regions: arrayOf(ref("RegionComparison")),
+  }),
+  SearchResult: object({
+    id: string,
+    kind: { enum: ENUMS.regionKind },
+    name: string,
+    countryCode: nullable(string),
+    tiles: integer,
+  }),
+  RegionDetail: object({
+    id: string,
+    kind: { enum: ENUMS.regionKind },
+    name: string,
+    countryCode: nullable(string),
+    period: ref("Period"),
+    type: ref("NetworkType"),
+    summary: nullable(ref("AggregateGroup")),
+    rank: nullable(object({ position: integer, total: integer })),
+    position: nullable(ref("PercentilePosition")),
+    trend: arrayOf(ref("TrendPoint")),
+    neighbours: arrayOf(
+      object({ id: string, quadkey: string, summary: ref("SpeedSummary") })
+    ),
+    country: nullable(
+      object({
+        countryCode: string,
+        name: string,
+        summary: ref("SpeedSummary"),
+        difference: nullable(changeFigures),
+      })
+    ),
+  }),
+  LoadState: object({
+    status: { enum: ["loading", "ready", "failed"] },
+    records: integer,
+    periods: integer,
+    sources: arrayOf(string),
+    loadedAt: nullable(timestamp),
+    error: nullable(string),
+  }),
+  RejectionCounts: {
+    type: "object",
+    propertyNames: { enum: REJECTION_REASONS },
+    additionalProperties: integer,
+  },
+  DataQualityReport: object({
+    rows: integer,
+    accepted: integer,
+    rejected: integer,
+    reasons: ref("RejectionCounts"),
+    sources: arrayOf(
+      object({
+        source: string,
+        rows: integer,
+        accepted: integer,
+        rejected: integer,
+        reasons: ref("RejectionCounts"),
+        quarantined: arrayOf(
+          object({
+            row: nullable(integer),
+            reason: { enum: REJECTION_REASONS },
+            message: string,
+          })
+        ),
+      })
+    ),
+  }),
+  Coverage: object({
+    tiles: integer,
+    tests: integer,
+    devices: integer,
+    countries: integer,
+  }),
+  DatasetMetadata: object({
+    dataSource: string,
+    status: { enum: ["loading", "ready", "failed"] },
+    loadedAt: nullable(timestamp),
+    records: integer,
+    rejected: integer,
+    files: arrayOf(
+      object({
+        source: string,
+        rows: integer,
+        accepted: integer,
+        rejected: integer,
+      })
+    ),
+    firstPeriod: nullable(ref("Period")),
+    lastPeriod: nullable(ref("Period")),
+    periods: arrayOf(
+      object({ ...period, fixed: ref("Coverage"), mobile: ref("Coverage") })
+    ),
+    coverage: object({ fixed: ref("Coverage"), mobile: ref("Coverage") }),
+    fields: arrayOf(
+      object({
+        column: string,
+        field: string,
+        sourceUnit: string,
+        unit: string,
+        divisor: number,
+      })
+    ),
+    validation: object({ maxLatencyMs: number }),
+  }),
+  SpeedFeatureCollection: {
+    ...object({
+      type: { const: "FeatureCollection" },
+      features: arrayOf(
+        object({
+          type: { const: "Feature" },
+          id: string,
+          geometry: object({
+            type: { const: "Polygon" },
+            coordinates: { type: "array" },
+          }),
+          properties: object({
+            quadkey: string,
+            countryCode: nullable(string),
+            countryName: nullable(string),
+            region: nullable(string),
+            type: ref("NetworkType"),
+            ...speedMetrics,
+            ...period,
+          }),
+        })
+      ),
+    }),
+    description: "RFC 7946 GeoJSON with one polygon per tile",
+  },
+  NotificationChannel: object({
+    name: string,
+    provider: { enum: CHANNEL_PROVIDERS },
+  }),
+  AlertInput: object(
+    {
+      id: {
+        ...string,
+        description: "Sent back to keep an existing alert's state",
+      },
+      region: { ...string, description: "One of the watchlist's regions" },
+      type: ref("NetworkType"),
+      metric: { enum: ALERT_METRICS },
+      statistic: { enum: ALERT_STATISTICS },
+      condition: { enum: ALERT_CONDITIONS },
+      threshold: {
+        ...number,
+        exclusiveMinimum: 0,
+        description: "Percent for *_percent conditions, otherwise Mbps or ms",
+      },
+      channels: arrayOf(string),
+    },
+    ["id", "channels"]
+  ),
+  WatchlistInput: object(
+    {
+      name: { ...string, minLength: 1, maxLength: MAX_WATCHLIST_NAME_LENGTH },
+      regions: { ...arrayOf(string), maxItems: MAX_WATCHLIST_REGIONS },
+      alerts: {
+        ...arrayOf(ref("AlertInput")),
+        maxItems: MAX_WATCHLIST_ALERTS,
+      },
+    },
+    ["alerts"]
+  ),
+  Watchlist: object({
+    id: string,
+    name: string,
+    regions: arrayOf(string),
+    alerts: arrayOf(
+      object({
+        id: string,
+        region: string,
+        type: ref("NetworkType"),
+        metric: { enum: ALERT_METRICS },
+        statistic: { enum: ALERT_STATISTICS },
+        condition: { enum: ALERT_CONDITIONS },
+        threshold: number,
+        channels: arrayOf(string),
+        lastEvaluation: nullable(
+          object({
+            period: string,
+            value: nullable(number),
+            previousValue: nullable(number),
+            change: nullable(number),
+            triggered: { type: "boolean" },
+            evaluatedAt: timestamp,
+          })
+        ),
+        lastTriggeredPeriod: nullable(string),
+      })
+    ),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+  ApiKey: object({
+    id: string,
+    name: string,
+    prefix: string,
+    scopes: arrayOf({ enum: API_KEY_SCOPES }),
+    rateLimit: nullable(integer),
+    createdAt: timestamp,
+    revokedAt: nullable(timestamp),
+  }),
+  ApiKeyInput: object(
+    {
+      name: { ...string, minLength: 1, maxLength: MAX_KEY_NAME_LENGTH },
+      scopes: { ...arrayOf({ enum: API_KEY_SCOPES }), minItems: 1 },
+      rateLimit: nullable({ ...integer, minimum: 1 }),
+    },
+    ["rateLimit"]
+  ),
+};
@@ -0,0 +1,17 @@
+export interface Period {
+  year: number;
+  quarter: number;
+}
+
+export const periodKey = ({ year, quarter }: Period) => `${year}-Q${quarter}`;
+
+export const comparePeriods = (a: Period, b: Period) =>
+  a.year - b.year || a.quarter - b.quarter;
+
+export const previousPeriod = ({ year, quarter }: Period): Period =>
+  quarter === 1
+    ? { year: year - 1, quarter: 4 }
+    : { year, quarter: quarter - 1 };
+
+export const isSamePeriod = (a: Period, b: Period) =>
+  a.year === b.year && a.quarter === b.quarter;
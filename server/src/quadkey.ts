@@ -0,0 +1,82 @@
+// Helpers for Bing-style quadkeys, which the Ookla open data uses to identify
+// each tile. See https://learn.microsoft.com/en-us/bingmaps/articles/bing-maps-tile-system
+
+export interface TileCoordinates {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+const QUADKEY_PATTERN = /^[0-3]+$/;
+
+export function isValidQuadkey(quadkey: string): boolean {
+  return QUADKEY_PATTERN.test(quadkey);
+}
+
+// Decode a quadkey into its zoom level and tile x/y
+export function quadkeyToTile(quadkey: string): TileCoordinates {
+  if (!isValidQuadkey(quadkey)) {
+    throw new Error(`Invalid quadkey: ${quadkey}`);
+  }
+
+  let x = 0;
+  let y = 0;
+  const zoom = quadkey.length;
+  for (let i = zoom; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    const digit = quadkey.charCodeAt(zoom - i) - 48;
+    if (digit & 1) x |= mask;
+    if (digit & 2) y |= mask;
+  }
+  return { zoom, x, y };
+}
+
+// Encode tile x/y at a zoom level back into a quadkey
+export function tileToQuadkey({ zoom, x, y }: TileCoordinates): string {
+  let quadkey = "";
+  for (let i = zoom; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    let digit = 0;
+    if (x & mask) digit += 1;
+    if (y & mask) digit += 2;
+    quadkey += digit;
+  }
+  return quadkey;
+}
+
+const tileXToLon = (x: number, zoom: number) => (x / 2 ** zoom) * 360 - 180;
+
+const tileYToLat = (y: number, zoom: number) =>
+  (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** zoom))) * 180) / Math.PI;
+
+export function tileToBoundingBox({
+  zoom,
+  x,
+  y,
+}: TileCoordinates): BoundingBox {
+  return {
+    west: tileXToLon(x, zoom),
+    south: tileYToLat(y + 1, zoom),
+    east: tileXToLon(x + 1, zoom),
+    north: tileYToLat(y, zoom),
+  };
+}
+
+export function boundingBoxCentroid(bbox: BoundingBox): LatLon {
+  return {
+    lat: (bbox.south + bbox.north) / 2,
+    lon: (bbox.west + bbox.east) / 2,
+  };
+}
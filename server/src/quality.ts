@@ -0,0 +1,78 @@
+export const REJECTION_REASONS = [
+  "invalid_quadkey",
+  "missing_value",
+  "invalid_number",
+  "negative_speed",
+  "impossible_latency",
+  "invalid_count",
+  "invalid_period",
+  "malformed_polygon",
+  "duplicate_quadkey",
+] as const;
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+// Rejected rows kept per source so a bad file can be inspected without rereading it
+export const MAX_QUARANTINED_ROWS = 20;
+
+export interface QuarantinedRow {
+  // 1-based row number within the source, null when not known (cross-file duplicates)
+  row: number | null;
+  reason: RejectionReason;
+  message: string;
+}
+
+export interface SourceQuality {
+  source: string;
+  rows: number;
+  accepted: number;
+  rejected: number;
+  reasons: Partial<Record<RejectionReason, number>>;
+  quarantined: QuarantinedRow[];
+}
+
+export interface DataQualityReport {
+  rows: number;
+  accepted: number;
+  rejected: number;
+  reasons: Partial<Record<RejectionReason, number>>;
+  sources: SourceQuality[];
+}
+
+export const createSourceQuality = (source: string): SourceQuality => ({
+  source,
+  rows: 0,
+  accepted: 0,
+  rejected: 0,
+  reasons: {},
+  quarantined: [],
+});
+
+export function rejectRow(
+  quality: SourceQuality,
+  rejection: QuarantinedRow
+): void {
+  quality.rejected += 1;
+  quality.reasons[rejection.reason] =
+    (quality.reasons[rejection.reason] ?? 0) + 1;
+  if (quality.quarantined.length < MAX_QUARANTINED_ROWS) {
+    quality.quarantined.push(rejection);
+  }
+}
+
+// Totals across every source, for the summary at the top of the report
+export function summarizeQuality(sources: SourceQuality[]): DataQualityReport {
+  const reasons: Partial<Record<RejectionReason, number>> = {};
+  for (const source of sources) {
+    for (const reason of REJECTION_REASONS) {
+      const count = source.reasons[reason];
+      if (count) reasons[reason] = (reasons[reason] ?? 0) + count;
+    }
+  }
+  return {
+    rows: sources.reduce((sum, source) => sum + source.rows, 0),
+    accepted: sources.reduce((sum, source) => sum + source.accepted, 0),
+    rejected: sources.reduce((sum, source) => sum + source.rejected, 0),
+    reasons,
+    sources,
+  };
+}
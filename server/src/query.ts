@@ -0,0 +1,277 @@
+import { ValidationError, ValidationIssue } from "./errors";
+import { Period } from "./period";
+import { BoundingBox } from "./quadkey";
+import { NETWORK_TYPES, NetworkType, SpeedData } from "./types";
+
+export type QueryParams = Record<string, unknown>;
+
+export const SORT_FIELDS = {
+  download: "avgDownloadSpeed",
+  upload: "avgUploadSpeed",
+  latency: "avgLatency",
+  tests: "tests",
+  devices: "devices",
+} as const;
+
+export type SortField = keyof typeof SORT_FIELDS;
+export const SORT_OPTIONS = Object.keys(SORT_FIELDS) as SortField[];
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export interface SpeedFilter {
+  minTests: number;
+  year?: number;
+  quarter?: number;
+  type?: NetworkType;
+  country?: string;
+  bbox?: BoundingBox;
+}
+
+export interface SpeedQuery extends SpeedFilter {
+  sort: SortField;
+  order: SortOrder;
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+const DEFAULT_LIMIT = 10;
+export const UNLIMITED = Number.MAX_SAFE_INTEGER;
+
+export interface IntegerRange {
+  min: number;
+  max: number;
+}
+
+// Ranges of integer parameters. Handlers parse with these and the OpenAPI
+// document is generated from them, so the two can't disagree.
+export const PARAMETER_RANGES = {
+  year: { min: 2000, max: 2100 },
+  quarter: { min: 1, max: 4 },
+  // Thresholds and offsets
+  count: { min: 0, max: UNLIMITED },
+  limit: { min: 1, max: 1000 },
+  // Bulk endpoints return every match unless the client asks for a page
+  bulkLimit: { min: 1, max: UNLIMITED },
+  rankingsLimit: { min: 1, max: 100 },
+  searchLimit: { min: 1, max: 50 },
+  tileZoom: { min: 0, max: 24 },
+  tileCoordinate: { min: 0, max: 2 ** 24 - 1 },
+  aggregateZoom: { min: 1, max: 23 },
+  histogramBins: { min: 1, max: 100 },
+} satisfies Record<string, IntegerRange>;
+
+export const MAX_SEARCH_LENGTH = 100;
+
+// ISO 3166-1 alpha-2, in either case
+export const COUNTRY_CODE_PATTERN = /^[A-Za-z]{2}$/;
+
+// Collects issues while parsing so the client sees every problem at once
+export class QueryParser {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(private readonly params: QueryParams) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.params[name];
+    if (value === undefined || value === "") return undefined;
+    if (typeof value !== "string") {
+      this.issues.push({ parameter: name, message: "must be a single value" });
+      return undefined;
+    }
+    return value;
+  }
+
+  integer(name: string, { min, max }: IntegerRange): number | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      this.issues.push({
+        parameter: name,
+        message: `must be an integer between ${min} and ${max}`,
+      });
+      return undefined;
+    }
+    return parsed;
+  }
+
+  oneOf<T extends string>(name: string, options: readonly T[]): T | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return undefined;
+    if (!options.includes(value as T)) {
+      this.issues.push({
+        parameter: name,
+        message: `must be one of: ${options.join(", ")}`,
+      });
+      return undefined;
+    }
+    return value as T;
+  }
+
+  // Throws a ValidationError carrying every issue collected so far
+  assertValid() {
+    if (this.issues.length > 0) {
+      throw new ValidationError(this.issues);
+    }
+  }
+
+  text(name: string, maxLength: number): string | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return undefined;
+    if (value.length > maxLength) {
+      this.issues.push({
+        parameter: name,
+        message: `must be at most ${maxLength} characters`,
+      });
+      return undefined;
+    }
+    return value;
+  }
+
+  // ISO 3166-1 alpha-2 code, normalized to upper case
+  countryCode(name: string): string | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return undefined;
+    if (!COUNTRY_CODE_PATTERN.test(value)) {
+      this.issues.push({
+        parameter: name,
+        message: "must be a two-letter country code",
+      });
+      return undefined;
+    }
+    return value.toUpperCase();
+  }
+
+  bbox(name: string): BoundingBox | undefined {
+    const value = this.raw(name);
+    if (value === undefined) return undefined;
+    const parts = value.split(",").map(Number);
+    const [west, south, east, north] = parts;
+    if (
+      parts.length !== 4 ||
+      parts.some((part) => !Number.isFinite(part)) ||
+      west < -180 ||
+      east > 180 ||
+      south < -90 ||
+      north > 90 ||
+      west > east ||
+      south > north
+    ) {
+      this.issues.push({
+        parameter: name,
+        message: "must be west,south,east,north in degrees",
+      });
+      return undefined;
+    }
+    return { west, south, east, north };
+  }
+}
+
+// Optional year and quarter selecting a single period; both or neither
+export function parsePeriod(parser: QueryParser): Period | undefined {
+  const year = parser.integer("year", PARAMETER_RANGES.year);
+  const quarter = parser.integer("quarter", PARAMETER_RANGES.quarter);
+  if ((year === undefined) !== (quarter === undefined)) {
+    parser.issues.push({
+      parameter: "quarter",
+      message: "year and quarter must be given together",
+    });
+  }
+  return year !== undefined && quarter !== undefined
+    ? { year, quarter }
+    : undefined;
+}
+
+// Filter parameters shared by every endpoint that narrows down the dataset
+export function parseSpeedFilter(parser: QueryParser): SpeedFilter {
+  return {
+    minTests: parser.integer("minTests", PARAMETER_RANGES.count) ?? 0,
+    year: parser.integer("year", PARAMETER_RANGES.year),
+    quarter: parser.integer("quarter", PARAMETER_RANGES.quarter),
+    type: parser.oneOf("type", NETWORK_TYPES),
+    country: parser.countryCode("country"),
+    bbox: parser.bbox("bbox"),
+  };
+}
+
+// Bulk endpoints (GeoJSON, exports) pass an unbounded limit so they return
+// every match unless the client asks for a page
+export function parseSpeedQuery(
+  params: QueryParams,
+  {
+    defaultLimit = DEFAULT_LIMIT,
+    limitRange = PARAMETER_RANGES.limit,
+  }: { defaultLimit?: number; limitRange?: IntegerRange } = {}
+): SpeedQuery {
+  const parser = new QueryParser(params);
+  const query: SpeedQuery = {
+    ...parseSpeedFilter(parser),
+    sort: parser.oneOf("sort", SORT_OPTIONS) ?? "download",
+    order: parser.oneOf("order", SORT_ORDERS) ?? "desc",
+    limit: parser.integer("limit", limitRange) ?? defaultLimit,
+    offset: parser.integer("offset", PARAMETER_RANGES.count) ?? 0,
+  };
+
+  parser.assertValid();
+  return query;
+}
+
+const intersects = (a: BoundingBox, b: BoundingBox) =>
+  a.west <= b.east &&
+  a.east >= b.west &&
+  a.south <= b.north &&
+  a.north >= b.south;
+
+export const matchesSpeedFilter =
+  (query: SpeedFilter) =>
+  (item: SpeedData): boolean =>
+    item.tests >= query.minTests &&
+    (query.year === undefined || item.year === query.year) &&
+    (query.quarter === undefined || item.quarter === query.quarter) &&
+    (!query.type || item.type === query.type) &&
+    (!query.country || item.countryCode === query.country) &&
+    (!query.bbox || intersects(item.bbox, query.bbox));
+
+export function filterSpeedData(
+  data: SpeedData[],
+  query: SpeedFilter
+): SpeedData[] {
+  return data.filter(matchesSpeedFilter(query));
+}
+
+export function sortSpeedData(
+  data: SpeedData[],
+  sort: SortField,
+  order: SortOrder
+): SpeedData[] {
+  const field = SORT_FIELDS[sort];
+  const direction = order === "asc" ? 1 : -1;
+  return [...data].sort((a, b) => (a[field] - b[field]) * direction);
+}
+
+export function querySpeedData(
+  data: SpeedData[],
+  query: SpeedQuery
+): Page<SpeedData> {
+  const matches = sortSpeedData(
+    filterSpeedData(data, query),
+    query.sort,
+    query.order
+  );
+  const nextOffset = query.offset + query.limit;
+  return {
+    data: matches.slice(query.offset, nextOffset),
+    total: matches.length,
+    limit: query.limit,
+    offset: query.offset,
+    nextOffset: nextOffset < matches.length ? nextOffset : null,
+  };
+}
@@ -0,0 +1,182 @@
+import { Dataset } from "./dataset";
+import { Period, periodKey, previousPeriod } from "./period";
+import { SORT_FIELDS, SortField, SortOrder } from "./query";
+import { NetworkType, SpeedData } from "./types";
+
+export const RANKING_METHODS = ["raw", "adjusted"] as const;
+export type RankingMethod = (typeof RANKING_METHODS)[number];
+
+// Two-sided 95% interval under a normal approximation
+const Z_95 = 1.96;
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface RankedSpeedData extends SpeedData {
+  rank: number;
+  // Rank of the same tile in the preceding quarter, null if it was not present
+  previousRank: number | null;
+  // Value the tile is ranked by: the raw metric, or the sample-adjusted estimate
+  score: number;
+  // 95% interval around the score, null for count metrics or too few tiles
+  interval: ConfidenceInterval | null;
+}
+
+export interface RankingOptions {
+  type: NetworkType;
+  sort: SortField;
+  method: RankingMethod;
+  minTests: number;
+  minDevices: number;
+  // Weight of the period average in adjusted scores, in tests
+  priorTests: number;
+  limit: number;
+}
+
+export interface Rankings {
+  period: Period;
+  previousPeriod: Period;
+  method: RankingMethod;
+  data: RankedSpeedData[];
+}
+
+type ScoredSpeedData = Omit<RankedSpeedData, "rank" | "previousRank">;
+
+const isSpeedMetric = (sort: SortField) =>
+  sort === "download" || sort === "upload" || sort === "latency";
+
+// Ookla only publishes per-tile averages, so the spread of individual tests is
+// approximated by the spread of tile averages across the period. Adjusted scores
+// shrink each tile toward the test-weighted period average, weighted by
+// priorTests against the tile's own test count.
+const scoreRecords = (
+  records: SpeedData[],
+  {
+    sort,
+    method,
+    priorTests,
+  }: Pick<RankingOptions, "sort" | "method" | "priorTests">
+): ScoredSpeedData[] => {
+  const field = SORT_FIELDS[sort];
+  if (!isSpeedMetric(sort) || records.length === 0) {
+    return records.map((item) => ({
+      ...item,
+      score: item[field],
+      interval: null,
+    }));
+  }
+
+  const tests = records.reduce((sum, item) => sum + item.tests, 0);
+  const weightedMean =
+    records.reduce((sum, item) => sum + item[field] * item.tests, 0) / tests;
+  const mean =
+    records.reduce((sum, item) => sum + item[field], 0) / records.length;
+  const deviation =
+    records.length > 1
+      ? Math.sqrt(
+          records.reduce((sum, item) => sum + (item[field] - mean) ** 2, 0) /
+            (records.length - 1)
+        )
+      : null;
+
+  return records.map((item) => {
+    const value = item[field];
+    const adjusted = method === "adjusted";
+    const score = adjusted
+      ? (value * item.tests + weightedMean * priorTests) /
+        (item.tests + priorTests)
+      : value;
+    const margin =
+      deviation === null
+        ? null
+        : (Z_95 * deviation) /
+          Math.sqrt(item.tests + (adjusted ? priorTests : 0));
+    return {
+      ...item,
+      score,
+      interval:
+        margin === null
+          ? null
+          : { lower: Math.max(0, score - margin), upper: score + margin },
+    };
+  });
+};
+
+const rankPeriod = (
+  dataset: Dataset,
+  period: Period,
+  options: RankingOptions
+): ScoredSpeedData[] => {
+  const records = (dataset.byPeriod.get(periodKey(period)) ?? []).filter(
+    (item) => item.type === options.type
+  );
+  // Thresholds apply after scoring so the period average covers every tile
+  const direction = options.sort === "latency" ? 1 : -1;
+  return scoreRecords(records, options)
+    .filter(
+      (item) =>
+        item.tests >= options.minTests && item.devices >= options.minDevices
+    )
+    .sort((a, b) => (a.score - b.score) * direction);
+};
+
+// Latency ranks best when lowest, every other metric when highest
+export function rankSpeedData(
+  dataset: Dataset,
+  period: Period,
+  options: RankingOptions
+): Rankings {
+  const previous = previousPeriod(period);
+  const previousRanks = new Map(
+    rankPeriod(dataset, previous, options).map((item, index) => [
+      item.quadkey,
+      index + 1,
+    ])
+  );
+
+  return {
+    period,
+    previousPeriod: previous,
+    method: options.method,
+    data: rankPeriod(dataset, period, options)
+      .slice(0, options.limit)
+      .map((item, index) => ({
+        ...item,
+        rank: index + 1,
+        previousRank: previousRanks.get(item.quadkey) ?? null,
+      })),
+  };
+}
+
+// Order records by the score rankings use with the given method, e.g. for
+// exports matching the rankings table. Each record is scored against every
+// tile of its period and network type, like rankings do.
+export function sortByRankingScore(
+  dataset: Dataset,
+  records: SpeedData[],
+  options: Pick<RankingOptions, "sort" | "method" | "priorTests">,
+  order: SortOrder
+): SpeedData[] {
+  const scoreKey = (item: SpeedData) =>
+    `${periodKey(item)}:${item.type}:${item.quadkey}`;
+  const scores = new Map<string, number>();
+  const groups = new Map(
+    records.map((item) => [`${periodKey(item)}:${item.type}`, item])
+  );
+  for (const sample of groups.values()) {
+    const periodRecords = (
+      dataset.byPeriod.get(periodKey(sample)) ?? []
+    ).filter((item) => item.type === sample.type);
+    for (const item of scoreRecords(periodRecords, options)) {
+      scores.set(scoreKey(item), item.score);
+    }
+  }
+  const direction = order === "asc" ? 1 : -1;
+  return [...records].sort(
+    (a, b) =>
+      ((scores.get(scoreKey(a)) ?? 0) - (scores.get(scoreKey(b)) ?? 0)) *
+      direction
+  );
+}
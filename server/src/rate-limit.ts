@@ -0,0 +1,50 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window ends
+  reset: number;
+}
+
+export interface RateLimiter {
+  readonly windowSeconds: number;
+  consume(key: string, limit: number): RateLimitResult;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window request counters per client, kept in memory
+export function createRateLimiter(windowSeconds: number): RateLimiter {
+  const windows = new Map<string, Window>();
+  const windowMs = windowSeconds * 1000;
+
+  // Forget clients whose window has ended so the map doesn't grow unbounded
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, windowMs).unref();
+
+  return {
+    windowSeconds,
+    consume(key, limit) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        reset: Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+  };
+}
@@ -0,0 +1,291 @@
+import {
+  AggregateGroup,
+  aggregateSpeedData,
+  GroupBy,
+  SpeedSummary,
+  summarizeSpeedData,
+} from "./aggregate";
+import { Dataset } from "./dataset";
+import { Period, periodKey } from "./period";
+import { isValidQuadkey, quadkeyToTile, tileToQuadkey } from "./quadkey";
+import { buildTrend, TrendPoint } from "./trends";
+import { NetworkType, SpeedData } from "./types";
+
+export type RegionKind = "tile" | "country" | "region";
+
+// A place users can pick: a tile (or any parent tile, by quadkey prefix), a
+// country by ISO code, or an admin region within a country. Ids look like
+// "tile:1202021311", "country:NL" and "region:NL:Noord-Brabant".
+export interface RegionRef {
+  id: string;
+  kind: RegionKind;
+  countryCode: string | null;
+  // Quadkey for tiles, region name for admin regions, null for countries
+  key: string | null;
+}
+
+export function parseRegionId(id: string): RegionRef | null {
+  const [kind, ...rest] = id.split(":");
+  switch (kind) {
+    case "tile": {
+      const quadkey = rest.join(":");
+      return quadkey !== "" && isValidQuadkey(quadkey)
+        ? { id, kind, countryCode: null, key: quadkey }
+        : null;
+    }
+    case "country":
+      return rest.length === 1 && /^[A-Za-z]{2}$/.test(rest[0])
+        ? {
+            id: `country:${rest[0].toUpperCase()}`,
+            kind,
+            countryCode: rest[0].toUpperCase(),
+            key: null,
+          }
+        : null;
+    case "region": {
+      const [code, ...name] = rest;
+      const region = name.join(":");
+      return code && /^[A-Za-z]{2}$/.test(code) && region !== ""
+        ? {
+            id: `region:${code.toUpperCase()}:${region}`,
+            kind,
+            countryCode: code.toUpperCase(),
+            key: region,
+          }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function matchesRegion(ref: RegionRef): (item: SpeedData) => boolean {
+  switch (ref.kind) {
+    case "tile":
+      return (item) => item.quadkey.startsWith(ref.key as string);
+    case "country":
+      return (item) => item.countryCode === ref.countryCode;
+    case "region":
+      return (item) =>
+        item.countryCode === ref.countryCode && item.region === ref.key;
+  }
+}
+
+// Display name from any record in the region; tiles fall back to the quadkey
+// when they lie outside the boundary data
+export function regionName(ref: RegionRef, item: SpeedData): string {
+  switch (ref.kind) {
+    case "tile": {
+      const place = item.region
+        ? `${item.region}, ${item.countryName}`
+        : item.countryName;
+      return place ? `${ref.key} (${place})` : (ref.key as string);
+    }
+    case "country":
+      return item.countryName ?? (ref.countryCode as string);
+    case "region":
+      return `${ref.key}, ${item.countryName ?? ref.countryCode}`;
+  }
+}
+
+// Share of the period's tiles, in percent, that the region beats: faster for
+// speeds, lower for latency. Ties count half.
+export interface PercentilePosition {
+  download: number;
+  upload: number;
+  latency: number;
+}
+
+const percentBeaten = (
+  values: number[],
+  value: number,
+  lowerIsBetter: boolean
+) => {
+  let beaten = 0;
+  for (const other of values) {
+    if (other === value) beaten += 0.5;
+    else if (lowerIsBetter ? other > value : other < value) beaten += 1;
+  }
+  return (beaten / values.length) * 100;
+};
+
+export const percentilePosition = (
+  periodRecords: SpeedData[],
+  summary: SpeedSummary
+): PercentilePosition => ({
+  download: percentBeaten(
+    periodRecords.map((item) => item.avgDownloadSpeed),
+    summary.avgDownloadSpeed,
+    false
+  ),
+  upload: percentBeaten(
+    periodRecords.map((item) => item.avgUploadSpeed),
+    summary.avgUploadSpeed,
+    false
+  ),
+  latency: percentBeaten(
+    periodRecords.map((item) => item.avgLatency),
+    summary.avgLatency,
+    true
+  ),
+});
+
+export interface RegionRank {
+  // 1-based position by test-weighted download speed among regions of the same kind
+  position: number;
+  total: number;
+}
+
+export interface NeighbourTile {
+  id: string;
+  quadkey: string;
+  summary: SpeedSummary;
+}
+
+export interface CountryComparison {
+  countryCode: string;
+  name: string;
+  summary: SpeedSummary;
+  // Percent above (positive) or below the country average, null when the
+  // region has no tiles in the period
+  difference: {
+    download: number;
+    upload: number;
+    latency: number;
+  } | null;
+}
+
+export interface RegionDetail {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  period: Period;
+  type: NetworkType;
+  // Null when the region has no tiles in the period
+  summary: AggregateGroup | null;
+  rank: RegionRank | null;
+  position: PercentilePosition | null;
+  trend: TrendPoint[];
+  // Adjacent tiles at the same zoom with data in the period; tiles only
+  neighbours: NeighbourTile[];
+  // Null for countries and for places outside the boundary data
+  country: CountryComparison | null;
+}
+
+// Key of the region among aggregate groups of its kind
+const aggregateKey = (ref: RegionRef): [GroupBy, number, string] => {
+  switch (ref.kind) {
+    case "tile":
+      return ["quadkey", (ref.key as string).length, ref.key as string];
+    case "country":
+      return ["country", 0, ref.countryCode as string];
+    case "region":
+      return ["region", 0, `${ref.countryCode}:${ref.key}`];
+  }
+};
+
+const neighbourTiles = (
+  quadkey: string,
+  periodRecords: SpeedData[]
+): NeighbourTile[] => {
+  const { zoom, x, y } = quadkeyToTile(quadkey);
+  const size = 2 ** zoom;
+  const neighbours: NeighbourTile[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if ((dx === 0 && dy === 0) || y + dy < 0 || y + dy >= size) continue;
+      // Wrap around the antimeridian
+      const neighbour = tileToQuadkey({
+        zoom,
+        x: (x + dx + size) % size,
+        y: y + dy,
+      });
+      if (neighbour === quadkey) continue;
+      const summary = summarizeSpeedData(
+        periodRecords.filter((item) => item.quadkey.startsWith(neighbour))
+      );
+      if (summary) {
+        neighbours.push({
+          id: `tile:${neighbour}`,
+          quadkey: neighbour,
+          summary,
+        });
+      }
+    }
+  }
+  return neighbours;
+};
+
+const percentDifference = (value: number, average: number) =>
+  average === 0 ? 0 : ((value - average) / average) * 100;
+
+// Metrics of a region in one period with its global rank among regions of
+// the same kind, percentile position among tiles, quarterly trend, adjacent
+// tiles and the country average. The region must have records somewhere in
+// the dataset.
+export function regionDetail(
+  dataset: Dataset,
+  ref: RegionRef,
+  period: Period,
+  type: NetworkType
+): RegionDetail {
+  const matches = matchesRegion(ref);
+  const sample = dataset.records.find(matches) as SpeedData;
+  const periodRecords = (dataset.byPeriod.get(periodKey(period)) ?? []).filter(
+    (item) => item.type === type
+  );
+  const [groupBy, zoom, key] = aggregateKey(ref);
+  const groups = aggregateSpeedData(periodRecords, groupBy, zoom);
+  const index = groups.findIndex((group) => group.key === key);
+  const summary = index === -1 ? null : groups[index];
+
+  const countryCode = ref.countryCode ?? sample.countryCode;
+  const countrySummary =
+    ref.kind !== "country" && countryCode
+      ? summarizeSpeedData(
+          periodRecords.filter((item) => item.countryCode === countryCode)
+        )
+      : null;
+
+  return {
+    id: ref.id,
+    kind: ref.kind,
+    name: regionName(ref, sample),
+    countryCode,
+    period,
+    type,
+    summary,
+    rank: summary && { position: index + 1, total: groups.length },
+    position: summary && percentilePosition(periodRecords, summary),
+    trend: buildTrend(dataset, type, matches),
+    neighbours:
+      ref.kind === "tile"
+        ? neighbourTiles(ref.key as string, periodRecords)
+        : [],
+    country:
+      countryCode && countrySummary
+        ? {
+            countryCode,
+            name: sample.countryName ?? countryCode,
+            summary: countrySummary,
+            difference: summary
+              ? {
+                  download: percentDifference(
+                    summary.avgDownloadSpeed,
+                    countrySummary.avgDownloadSpeed
+                  ),
+                  upload: percentDifference(
+                    summary.avgUploadSpeed,
+                    countrySummary.avgUploadSpeed
+                  ),
+                  latency: percentDifference(
+                    summary.avgLatency,
+                    countrySummary.avgLatency
+                  ),
+                }
+              : null,
+          }
+        : null,
+  };
+}
@@ -0,0 +1,121 @@
+import { Dataset } from "./dataset";
+import { RegionKind } from "./regions";
+
+export interface SearchResult {
+  id: string;
+  kind: RegionKind;
+  name: string;
+  countryCode: string | null;
+  // Tile records in the region across every period and network type
+  tiles: number;
+}
+
+interface SearchEntry extends SearchResult {
+  // Lower-cased terms the query is matched against
+  terms: string[];
+}
+
+// Country and region entries are built once per dataset; the WeakMap lets
+// them go once a reload replaces the dataset
+const entryCache = new WeakMap<Dataset, SearchEntry[]>();
+
+const searchEntries = (dataset: Dataset): SearchEntry[] => {
+  let entries = entryCache.get(dataset);
+  if (entries) return entries;
+
+  const byId = new Map<string, SearchEntry>();
+  const add = (entry: Omit<SearchEntry, "tiles">) => {
+    const existing = byId.get(entry.id);
+    if (existing) {
+      existing.tiles += 1;
+    } else {
+      byId.set(entry.id, { ...entry, tiles: 1 });
+    }
+  };
+  for (const item of dataset.records) {
+    if (!item.countryCode || !item.countryName) continue;
+    add({
+      id: `country:${item.countryCode}`,
+      kind: "country",
+      name: item.countryName,
+      countryCode: item.countryCode,
+      terms: [item.countryName.toLowerCase(), item.countryCode.toLowerCase()],
+    });
+    if (item.region) {
+      add({
+        id: `region:${item.countryCode}:${item.region}`,
+        kind: "region",
+        name: `${item.region}, ${item.countryName}`,
+        countryCode: item.countryCode,
+        terms: [item.region.toLowerCase()],
+      });
+    }
+  }
+  entries = [...byId.values()];
+  entryCache.set(dataset, entries);
+  return entries;
+};
+
+// 0 for a prefix match, 1 for a match at the start of a word, 2 anywhere else
+const matchScore = (terms: string[], query: string): number | null => {
+  let best: number | null = null;
+  for (const term of terms) {
+    const index = term.indexOf(query);
+    if (index === -1) continue;
+    const score = index === 0 ? 0 : /[\s,(-]/.test(term[index - 1]) ? 1 : 2;
+    best = best === null ? score : Math.min(best, score);
+  }
+  return best;
+};
+
+// Countries and admin regions by name (or country code), and tiles by
+// quadkey prefix when the query looks like one
+export function searchRegions(
+  dataset: Dataset,
+  q: string,
+  limit: number
+): SearchResult[] {
+  const query = q.trim().toLowerCase();
+  if (query === "") return [];
+
+  const places = searchEntries(dataset)
+    .map((entry) => ({ entry, score: matchScore(entry.terms, query) }))
+    .filter(
+      (match): match is { entry: SearchEntry; score: number } =>
+        match.score !== null
+    )
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        b.entry.tiles - a.entry.tiles ||
+        a.entry.name.localeCompare(b.entry.name)
+    )
+    .map(({ entry: { terms, ...result } }) => result);
+
+  const tiles = new Map<string, SearchResult>();
+  if (/^[0-3]+$/.test(query)) {
+    for (const item of dataset.records) {
+      if (!item.quadkey.startsWith(query)) continue;
+      const existing = tiles.get(item.quadkey);
+      if (existing) {
+        existing.tiles += 1;
+        continue;
+      }
+      const place = item.region
+        ? `${item.region}, ${item.countryName}`
+        : item.countryName;
+      tiles.set(item.quadkey, {
+        id: `tile:${item.quadkey}`,
+        kind: "tile",
+        name: place ? `${item.quadkey} (${place})` : item.quadkey,
+        countryCode: item.countryCode,
+        tiles: 1,
+      });
+    }
+  }
+
+  return [
+    ...places,
+    ...[...tiles.values()].sort((a, b) => a.id.localeCompare(b.id)),
+  ].slice(0, limit);
+}
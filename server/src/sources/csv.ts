@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+import csv from "csv-parser";
+import { logger } from "../logger";
+import { findFiles, RawTileRow, rowContext, toBatch } from "./rows";
+import { DataSource } from "./source";
+
+const readCSV = (filePath: string): Promise<RawTileRow[]> => {
+  return new Promise((resolve, reject) => {
+    const results: RawTileRow[] = [];
+    fs.createReadStream(filePath)
+      .pipe(csv())
+      .on("data", (data) => {
+        results.push(data);
+      })
+      .on("end", () => {
+        resolve(results);
+      })
+      .on("error", (error) => {
+        logger.error(`Error reading CSV file ${filePath}:`, error);
+        reject(error);
+      });
+  });
+};
+
+// Every *.csv file under a directory, in the Ookla CSV column layout
+export function createCsvSource(dir: string): DataSource {
+  return {
+    name: "csv",
+    async load() {
+      const files = await findFiles(dir, ".csv");
+      return Promise.all(
+        files.map(async (file) => {
+          const source = path.relative(dir, file);
+          return toBatch(source, await readCSV(file), rowContext(source));
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { createCsvSource } from "./csv";
+import { createParquetSource } from "./parquet";
+import { DataSource } from "./source";
+import { createSqliteSource } from "./sqlite";
+
+export { DataSource, SourceBatch } from "./source";
+
+export const DATA_SOURCE_TYPES = ["csv", "parquet", "sqlite"] as const;
+
+export interface DataSourceConfig {
+  type: string;
+  dir: string;
+  sqliteFile: string;
+  sqliteTable: string;
+}
+
+export function createDataSource(config: DataSourceConfig): DataSource {
+  switch (config.type) {
+    case "csv":
+      return createCsvSource(config.dir);
+    case "parquet":
+      return createParquetSource(config.dir);
+    case "sqlite":
+      return createSqliteSource(config.sqliteFile, config.sqliteTable);
+    default:
+      throw new Error(
+        `Unknown data source "${config.type}", expected one of: ${DATA_SOURCE_TYPES.join(", ")}`
+      );
+  }
+}
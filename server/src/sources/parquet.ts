@@ -0,0 +1,53 @@
+import path from "path";
+import { ParquetReader } from "@dsnp/parquetjs";
+import { findFiles, RawTileRow, rowContext, toBatch } from "./rows";
+import { DataSource } from "./source";
+
+const COLUMNS = [
+  "quadkey",
+  "tile",
+  "avg_d_kbps",
+  "avg_u_kbps",
+  "avg_lat_ms",
+  "tests",
+  "devices",
+];
+
+const readParquet = async (filePath: string): Promise<RawTileRow[]> => {
+  const reader = await ParquetReader.openFile(filePath);
+  try {
+    // Only read the columns we map; the published files carry several more
+    const available = COLUMNS.filter((column) =>
+      reader.schema.fieldList.some((field) => field.name === column)
+    );
+    const cursor = reader.getCursor(available.map((column) => [column]));
+    const rows: RawTileRow[] = [];
+    let row: unknown;
+    while ((row = await cursor.next())) {
+      rows.push(row as RawTileRow);
+    }
+    return rows;
+  } finally {
+    await reader.close();
+  }
+};
+
+// Every *.parquet file under a directory, as published in Ookla's open data
+// (type=fixed/year=2020/quarter=2/2020-04-01_performance_fixed_tiles.parquet)
+export function createParquetSource(dir: string): DataSource {
+  return {
+    name: "parquet",
+    async load() {
+      const files = await findFiles(dir, ".parquet");
+      const batches = [];
+      // Sequentially, as a single quarterly file can hold millions of rows
+      for (const file of files) {
+        const source = path.relative(dir, file);
+        batches.push(
+          toBatch(source, await readParquet(file), rowContext(source))
+        );
+      }
+      return batches;
+    },
+  };
+}
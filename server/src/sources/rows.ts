@@ -0,0 +1,328 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "../logger";
+import { Period } from "../period";
+import { createSourceQuality, RejectionReason, rejectRow } from "../quality";
+import {
+  BoundingBox,
+  boundingBoxCentroid,
+  isValidQuadkey,
+  quadkeyToTile,
+  tileToBoundingBox,
+} from "../quadkey";
+import { NetworkType, SpeedData } from "../types";
+import { SourceBatch } from "./source";
+
+// A row in the Ookla open-data column layout, as read by any source. Parquet
+// files carry no period columns, so year/quarter may come from the path instead
+export interface RawTileRow {
+  quadkey?: unknown;
+  tile?: unknown;
+  avg_d_kbps?: unknown;
+  avg_u_kbps?: unknown;
+  avg_lat_ms?: unknown;
+  tests?: unknown;
+  devices?: unknown;
+  year?: unknown;
+  quarter?: unknown;
+  type?: unknown;
+}
+
+export interface RowContext {
+  type: NetworkType;
+  period: Period | null;
+}
+
+// Ookla publishes files such as 2020-04-01_performance_mobile_tiles.csv, or
+// nests them under type=mobile/ directories; anything else is treated as fixed
+export const networkTypeFromPath = (filePath: string): NetworkType =>
+  /mobile/i.test(filePath) ? "mobile" : "fixed";
+
+// Period from year=2020/quarter=2/ directories or the quarter start date in the file name
+export const periodFromPath = (filePath: string): Period | null => {
+  const year = /year=(\d{4})/.exec(filePath);
+  const quarter = /quarter=([1-4])/.exec(filePath);
+  if (year && quarter) {
+    return { year: Number(year[1]), quarter: Number(quarter[1]) };
+  }
+  const date = /(\d{4})-(\d{2})-\d{2}_performance/.exec(
+    path.basename(filePath)
+  );
+  if (date) {
+    return {
+      year: Number(date[1]),
+      quarter: Math.floor((Number(date[2]) - 1) / 3) + 1,
+    };
+  }
+  return null;
+};
+
+export const rowContext = (relativePath: string): RowContext => ({
+  type: networkTypeFromPath(relativePath),
+  period: periodFromPath(relativePath),
+});
+
+// Parquet int64 columns arrive as BigInt, CSV columns as strings
+const toNumber = (value: unknown): number =>
+  typeof value === "number"
+    ? value
+    : typeof value === "bigint"
+      ? Number(value)
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+
+const isMissing = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+// Ookla publishes speeds in kbps; records carry Mbps
+export const KBPS_PER_MBPS = 1000;
+
+export interface FieldMapping {
+  column: string;
+  field: keyof SpeedData;
+  sourceUnit: string;
+  unit: string;
+  // Source values are divided by this to get the record value
+  divisor: number;
+}
+
+// How the source columns become record fields, reported by /api/metadata
+export const FIELD_MAPPINGS: FieldMapping[] = [
+  {
+    column: "avg_d_kbps",
+    field: "avgDownloadSpeed",
+    sourceUnit: "kbps",
+    unit: "Mbps",
+    divisor: KBPS_PER_MBPS,
+  },
+  {
+    column: "avg_u_kbps",
+    field: "avgUploadSpeed",
+    sourceUnit: "kbps",
+    unit: "Mbps",
+    divisor: KBPS_PER_MBPS,
+  },
+  {
+    column: "avg_lat_ms",
+    field: "avgLatency",
+    sourceUnit: "ms",
+    unit: "ms",
+    divisor: 1,
+  },
+  {
+    column: "tests",
+    field: "tests",
+    sourceUnit: "count",
+    unit: "count",
+    divisor: 1,
+  },
+  {
+    column: "devices",
+    field: "devices",
+    sourceUnit: "count",
+    unit: "count",
+    divisor: 1,
+  },
+];
+
+// Averages above this are measurement errors rather than slow connections
+export const MAX_LATENCY_MS = 10000;
+
+// Published tile corners are rounded, so allow a little slack against the quadkey
+const POLYGON_TOLERANCE = 1e-6;
+
+// Parse a WKT POLYGON outer ring, or null when it is not a closed ring of coordinates
+const parsePolygonRing = (wkt: string): [number, number][] | null => {
+  const match = /^\s*POLYGON\s*\(\(([^()]*)\)\)\s*$/i.exec(wkt);
+  if (!match) return null;
+  const ring = match[1].split(",").map((point) => {
+    const values = point.trim().split(/\s+/).map(Number);
+    return values.length === 2 && values.every(Number.isFinite)
+      ? ([values[0], values[1]] as [number, number])
+      : null;
+  });
+  if (ring.length < 4 || ring.some((point) => point === null)) return null;
+  const points = ring as [number, number][];
+  const [first, last] = [points[0], points[points.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? points : null;
+};
+
+const matchesBoundingBox = (ring: [number, number][], bbox: BoundingBox) => {
+  const lons = ring.map(([lon]) => lon);
+  const lats = ring.map(([, lat]) => lat);
+  return [
+    [Math.min(...lons), bbox.west],
+    [Math.max(...lons), bbox.east],
+    [Math.min(...lats), bbox.south],
+    [Math.max(...lats), bbox.north],
+  ].every(
+    ([actual, expected]) => Math.abs(actual - expected) <= POLYGON_TOLERANCE
+  );
+};
+
+export type RowResult =
+  { record: SpeedData } | { reason: RejectionReason; message: string };
+
+const reject = (reason: RejectionReason, message: string): RowResult => ({
+  reason,
+  message,
+});
+
+// Map a raw row to a SpeedData record (speeds converted from kbps to Mbps),
+// or the reason it was rejected
+export function toSpeedData(row: RawTileRow, context: RowContext): RowResult {
+  const quadkey = String(row.quadkey ?? "");
+  if (!isValidQuadkey(quadkey)) {
+    return reject("invalid_quadkey", `invalid quadkey "${quadkey}"`);
+  }
+
+  const fields: Record<string, unknown> = {
+    avg_d_kbps: row.avg_d_kbps,
+    avg_u_kbps: row.avg_u_kbps,
+    avg_lat_ms: row.avg_lat_ms,
+    tests: row.tests,
+    devices: row.devices,
+  };
+  for (const [field, value] of Object.entries(fields)) {
+    if (isMissing(value)) {
+      return reject("missing_value", `${quadkey}: ${field} is missing`);
+    }
+    if (!Number.isFinite(toNumber(value))) {
+      return reject(
+        "invalid_number",
+        `${quadkey}: ${field} is not a number (${String(value)})`
+      );
+    }
+  }
+
+  const download = toNumber(row.avg_d_kbps);
+  const upload = toNumber(row.avg_u_kbps);
+  const latency = toNumber(row.avg_lat_ms);
+  const tests = toNumber(row.tests);
+  const devices = toNumber(row.devices);
+  if (download < 0 || upload < 0) {
+    return reject(
+      "negative_speed",
+      `${quadkey}: negative speed (download ${download} kbps, upload ${upload} kbps)`
+    );
+  }
+  if (latency < 0 || latency > MAX_LATENCY_MS) {
+    return reject(
+      "impossible_latency",
+      `${quadkey}: latency ${latency} ms is outside 0-${MAX_LATENCY_MS} ms`
+    );
+  }
+  if (
+    !Number.isInteger(tests) ||
+    !Number.isInteger(devices) ||
+    tests < 1 ||
+    devices < 1 ||
+    devices > tests
+  ) {
+    return reject(
+      "invalid_count",
+      `${quadkey}: ${tests} tests from ${devices} devices`
+    );
+  }
+
+  const year = isMissing(row.year) ? context.period?.year : toNumber(row.year);
+  const quarter = isMissing(row.quarter)
+    ? context.period?.quarter
+    : toNumber(row.quarter);
+  if (
+    year === undefined ||
+    quarter === undefined ||
+    !Number.isInteger(year) ||
+    ![1, 2, 3, 4].includes(quarter)
+  ) {
+    return reject(
+      "invalid_period",
+      `${quadkey}: no valid year and quarter in the row or file name`
+    );
+  }
+
+  const coordinates = quadkeyToTile(quadkey);
+  const bbox = tileToBoundingBox(coordinates);
+  if (isMissing(row.tile)) {
+    return reject("missing_value", `${quadkey}: tile is missing`);
+  }
+  const tile = String(row.tile);
+  const ring = parsePolygonRing(tile);
+  if (!ring) {
+    return reject(
+      "malformed_polygon",
+      `${quadkey}: tile is not a closed WKT polygon`
+    );
+  }
+  if (!matchesBoundingBox(ring, bbox)) {
+    return reject(
+      "malformed_polygon",
+      `${quadkey}: tile polygon does not match the quadkey bounds`
+    );
+  }
+
+  const type =
+    row.type === "fixed" || row.type === "mobile" ? row.type : context.type;
+  return {
+    record: {
+      quadkey,
+      tile,
+      zoom: coordinates.zoom,
+      bbox,
+      centroid: boundingBoxCentroid(bbox),
+      countryCode: null,
+      countryName: null,
+      region: null,
+      type,
+      avgDownloadSpeed: download / KBPS_PER_MBPS,
+      avgUploadSpeed: upload / KBPS_PER_MBPS,
+      avgLatency: latency,
+      tests,
+      devices,
+      year,
+      quarter,
+    },
+  };
+}
+
+// Collect mapped records for one file or table, quarantining rows that fail validation
+export function toBatch(
+  source: string,
+  rows: RawTileRow[],
+  context: RowContext
+): SourceBatch {
+  const records: SpeedData[] = [];
+  const quality = createSourceQuality(source);
+  rows.forEach((row, index) => {
+    quality.rows += 1;
+    const result = toSpeedData(row, context);
+    if ("record" in result) {
+      records.push(result.record);
+    } else {
+      rejectRow(quality, { row: index + 1, ...result });
+    }
+  });
+  quality.accepted = records.length;
+  if (quality.rejected > 0) {
+    logger.warn(`Rejected ${quality.rejected} invalid rows from ${source}`);
+  }
+  return { source, records, quality };
+}
+
+export const findFiles = async (
+  dir: string,
+  extension: string
+): Promise<string[]> => {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findFiles(entryPath, extension);
+      return entry.name.endsWith(extension) ? [entryPath] : [];
+    })
+  );
+  return files.flat().sort();
+};
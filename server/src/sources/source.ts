@@ -0,0 +1,17 @@
+import { SourceQuality } from "../quality";
+import { SpeedData } from "../types";
+
+// Records read from one file or table of a data source
+export interface SourceBatch {
+  // Relative to the source's directory; clients see it, so it mustn't reveal
+  // where the data lives on the server
+  source: string;
+  records: SpeedData[];
+  quality: SourceQuality;
+}
+
+export interface DataSource {
+  // Shown to clients, e.g. "csv" or "sqlite:speeds.sqlite#tiles"
+  readonly name: string;
+  load(): Promise<SourceBatch[]>;
+}
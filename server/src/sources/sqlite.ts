@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs from "sql.js";
+import { RawTileRow, rowContext, toBatch } from "./rows";
+import { DataSource } from "./source";
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// A table in a local SQLite file with the Ookla columns plus year, quarter and
+// optionally type; rows without a type fall back to the file name
+export function createSqliteSource(file: string, table: string): DataSource {
+  if (!TABLE_NAME_PATTERN.test(table)) {
+    throw new Error(`Invalid SQLite table name: ${table}`);
+  }
+
+  return {
+    name: `sqlite:${path.basename(file)}#${table}`,
+    async load() {
+      const SQL = await initSqlJs();
+      const db = new SQL.Database(await fs.promises.readFile(file));
+      try {
+        const statement = db.prepare(`SELECT * FROM ${table}`);
+        const rows: RawTileRow[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        statement.free();
+        return [
+          toBatch(
+            `${path.basename(file)}#${table}`,
+            rows,
+            rowContext(path.basename(file))
+          ),
+        ];
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { summarizeSpeedData } from "./aggregate";
+import { SpeedData } from "./types";
+
+const STAT_FIELDS = {
+  download: "avgDownloadSpeed",
+  upload: "avgUploadSpeed",
+  latency: "avgLatency",
+} as const;
+
+type StatMetric = keyof typeof STAT_FIELDS;
+
+export const DEFAULT_HISTOGRAM_BINS = 20;
+
+export interface Percentiles {
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+// Bucket bounds are [min, max), except the last bucket which includes its max
+export interface HistogramBucket {
+  min: number;
+  max: number;
+  tiles: number;
+  tests: number;
+}
+
+export interface MetricDistribution {
+  // Test-count-weighted, like the aggregates
+  mean: number;
+  // Across tiles, each tile counting once
+  percentiles: Percentiles;
+  histogram: HistogramBucket[];
+}
+
+export interface SpeedStats {
+  tiles: number;
+  tests: number;
+  devices: number;
+  download: MetricDistribution | null;
+  upload: MetricDistribution | null;
+  latency: MetricDistribution | null;
+}
+
+// Linear interpolation between the closest ranks of an ascending array
+const percentile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const histogram = (
+  data: SpeedData[],
+  metric: StatMetric,
+  min: number,
+  max: number,
+  bins: number
+): HistogramBucket[] => {
+  // A single bucket when every tile has the same value
+  const count = max > min ? bins : 1;
+  const width = (max - min) / count;
+  const buckets = Array.from({ length: count }, (_, index) => ({
+    min: min + width * index,
+    max: index === count - 1 ? max : min + width * (index + 1),
+    tiles: 0,
+    tests: 0,
+  }));
+  for (const item of data) {
+    const value = item[STAT_FIELDS[metric]];
+    const index =
+      width > 0 ? Math.min(Math.floor((value - min) / width), count - 1) : 0;
+    buckets[index].tiles += 1;
+    buckets[index].tests += item.tests;
+  }
+  return buckets;
+};
+
+const distribution = (
+  data: SpeedData[],
+  metric: StatMetric,
+  mean: number,
+  bins: number
+): MetricDistribution => {
+  const sorted = data
+    .map((item) => item[STAT_FIELDS[metric]])
+    .sort((a, b) => a - b);
+  return {
+    mean,
+    percentiles: {
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      median: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+    },
+    histogram: histogram(
+      data,
+      metric,
+      sorted[0],
+      sorted[sorted.length - 1],
+      bins
+    ),
+  };
+};
+
+// Distribution of download, upload and latency across a set of tiles
+export function computeSpeedStats(
+  data: SpeedData[],
+  bins = DEFAULT_HISTOGRAM_BINS
+): SpeedStats {
+  const summary = summarizeSpeedData(data);
+  if (!summary) {
+    return {
+      tiles: data.length,
+      tests: 0,
+      devices: 0,
+      download: null,
+      upload: null,
+      latency: null,
+    };
+  }
+  return {
+    tiles: summary.tiles,
+    tests: summary.tests,
+    devices: summary.devices,
+    download: distribution(data, "download", summary.avgDownloadSpeed, bins),
+    upload: distribution(data, "upload", summary.avgUploadSpeed, bins),
+    latency: distribution(data, "latency", summary.avgLatency, bins),
+  };
+}
@@ -0,0 +1,113 @@
+import { EventEmitter } from "events";
+import { Dataset, emptyDataset } from "./dataset";
+import { logger } from "./logger";
+
+export type LoadStatus = "loading" | "ready" | "failed";
+
+export interface LoadState {
+  status: LoadStatus;
+  records: number;
+  periods: number;
+  sources: string[];
+  // When the dataset currently being served was loaded, null before the first load
+  loadedAt: string | null;
+  error: string | null;
+}
+
+let current: Dataset = emptyDataset();
+let state: LoadState = {
+  status: "loading",
+  records: 0,
+  periods: 0,
+  sources: [],
+  loadedAt: null,
+  error: null,
+};
+
+const events = new EventEmitter();
+// One listener per open /api/events stream
+events.setMaxListeners(0);
+
+let pending: Promise<LoadState> | null = null;
+let rerunRequested = false;
+
+export const getDataset = (): Dataset => current;
+
+export const getLoadState = (): LoadState => state;
+
+const setState = (next: LoadState) => {
+  state = next;
+  events.emit("state", state);
+};
+
+// Called with the new state whenever a reload starts, succeeds or fails;
+// returns a function that removes the listener
+export function onLoadStateChange(
+  listener: (state: LoadState) => void
+): () => void {
+  events.on("state", listener);
+  return () => {
+    events.off("state", listener);
+  };
+}
+
+// Reject datasets that would replace good data with nothing
+const validateDataset = (dataset: Dataset) => {
+  if (dataset.records.length === 0) {
+    throw new Error("Data source produced no valid records");
+  }
+};
+
+const runReload = async (
+  load: () => Promise<Dataset>,
+  reason: string
+): Promise<LoadState> => {
+  logger.info(`Reloading dataset (${reason})`);
+  setState({ ...state, status: "loading", error: null });
+  try {
+    const dataset = await load();
+    validateDataset(dataset);
+    // Swap in one assignment so requests see either the old or the new dataset
+    current = dataset;
+    setState({
+      status: "ready",
+      records: dataset.records.length,
+      periods: dataset.periods.length,
+      sources: dataset.files,
+      loadedAt: new Date().toISOString(),
+      error: null,
+    });
+    logger.info(
+      `Data loaded successfully: ${dataset.records.length} records across ${dataset.periods.length} periods`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    setState({ ...state, status: "failed", error: message });
+    logger.error("Error loading data:", error);
+  }
+  return state;
+};
+
+// Load a new dataset and swap it in once it validates; the previous dataset
+// keeps being served while loading and if the load fails. Reloads requested
+// while one is running are coalesced into a single follow-up run.
+export function reloadDataset(
+  load: () => Promise<Dataset>,
+  reason: string
+): Promise<LoadState> {
+  if (pending) {
+    rerunRequested = true;
+    return pending;
+  }
+
+  pending = (async () => {
+    let result = await runReload(load, reason);
+    while (rerunRequested) {
+      rerunRequested = false;
+      result = await runReload(load, "changes during previous reload");
+    }
+    pending = null;
+    return result;
+  })();
+  return pending;
+}
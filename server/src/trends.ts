@@ -0,0 +1,60 @@
+import { SpeedSummary, summarizeSpeedData } from "./aggregate";
+import { Dataset } from "./dataset";
+import { isSamePeriod, Period, periodKey, previousPeriod } from "./period";
+import { NetworkType, SpeedData } from "./types";
+
+export interface TrendChange {
+  download: number;
+  upload: number;
+  latency: number;
+}
+
+export interface TrendPoint extends Period, SpeedSummary {
+  // Percentage change from the immediately preceding quarter, when present
+  change: TrendChange | null;
+}
+
+const percentChange = (previous: number, current: number) =>
+  previous === 0 ? 0 : ((current - previous) / previous) * 100;
+
+// Build the quarter-by-quarter series for the records matching a predicate
+export function buildTrend(
+  dataset: Dataset,
+  type: NetworkType,
+  matches: (item: SpeedData) => boolean
+): TrendPoint[] {
+  const series: TrendPoint[] = [];
+
+  for (const period of dataset.periods) {
+    const records = (dataset.byPeriod.get(periodKey(period)) ?? []).filter(
+      (item) => item.type === type && matches(item)
+    );
+    const summary = summarizeSpeedData(records);
+    if (!summary) continue;
+
+    const previous = series[series.length - 1];
+    const change =
+      previous && isSamePeriod(previous, previousPeriod(period))
+        ? {
+            download: percentChange(
+              previous.avgDownloadSpeed,
+              summary.avgDownloadSpeed
+            ),
+            upload: percentChange(
+              previous.avgUploadSpeed,
+              summary.avgUploadSpeed
+            ),
+            latency: percentChange(previous.avgLatency, summary.avgLatency),
+          }
+        : null;
+
+    series.push({
+      year: period.year,
+      quarter: period.quarter,
+      ...summary,
+      change,
+    });
+  }
+
+  return series;
+}
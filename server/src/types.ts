@@ -0,0 +1,23 @@
+import { BoundingBox, LatLon } from "./quadkey";
+
+export const NETWORK_TYPES = ["fixed", "mobile"] as const;
+export type NetworkType = (typeof NETWORK_TYPES)[number];
+
+export interface SpeedData {
+  quadkey: string;
+  tile: string;
+  zoom: number;
+  bbox: BoundingBox;
+  centroid: LatLon;
+  countryCode: string | null;
+  countryName: string | null;
+  region: string | null;
+  type: NetworkType;
+  avgDownloadSpeed: number;
+  avgUploadSpeed: number;
+  avgLatency: number;
+  tests: number;
+  devices: number;
+  year: number;
+  quarter: number;
+}
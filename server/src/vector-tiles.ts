@@ -0,0 +1,116 @@
+import { FeatureCollection, Point } from "geojson";
+import geojsonvt from "geojson-vt";
+import { fromGeojsonVt } from "vt-pbf";
+import { Dataset } from "./dataset";
+import {
+  SpeedFeatureProperties,
+  toFeature,
+  toFeatureCollection,
+} from "./geojson";
+import { periodKey } from "./period";
+import { matchesSpeedFilter, SpeedFilter } from "./query";
+import { SpeedData } from "./types";
+
+export const LAYER_NAME = "speeds";
+const MAX_ZOOM = 16;
+// Dataset tiles are zoom 16, so below zoom 6 each one spans fewer than four
+// units of the 4096-unit tile extent, and below zoom 4 geojson-vt drops it
+// entirely. Overview zooms carry each tile's centroid as a point instead.
+const POLYGON_MIN_ZOOM = 6;
+
+type TileIndex = ReturnType<typeof geojsonvt>;
+
+interface PeriodIndex {
+  index: TileIndex;
+  centroids: TileIndex;
+  // Records behind the index's features, by quadkey and network type
+  records: Map<string, SpeedData>;
+}
+
+const recordKey = (quadkey: string, type: string) => `${quadkey}:${type}`;
+
+const toCentroidCollection = (
+  records: SpeedData[]
+): FeatureCollection<Point, SpeedFeatureProperties> => ({
+  type: "FeatureCollection",
+  features: records.map((item) => ({
+    ...toFeature(item),
+    geometry: {
+      type: "Point",
+      coordinates: [item.centroid.lon, item.centroid.lat],
+    },
+  })),
+});
+
+// Tile indexes are expensive to build, so keep one per dataset and quarter,
+// built on first use; the WeakMap lets them go once a reload replaces the
+// dataset. Filters apply to each tile's features, so no combination of filter
+// values can make the server build another index.
+const indexCache = new WeakMap<Dataset, Map<string, PeriodIndex>>();
+
+const periodIndex = (dataset: Dataset, key: string): PeriodIndex => {
+  let indexes = indexCache.get(dataset);
+  if (!indexes) {
+    indexes = new Map();
+    indexCache.set(dataset, indexes);
+  }
+
+  let index = indexes.get(key);
+  if (!index) {
+    const records = dataset.byPeriod.get(key) ?? [];
+    index = {
+      index: geojsonvt(toFeatureCollection(records), {
+        maxZoom: MAX_ZOOM,
+        indexMaxZoom: 5,
+        tolerance: 1,
+      }),
+      centroids: geojsonvt(toCentroidCollection(records), {
+        maxZoom: POLYGON_MIN_ZOOM - 1,
+        indexMaxZoom: POLYGON_MIN_ZOOM - 1,
+      }),
+      records: new Map(
+        records.map((item) => [recordKey(item.quadkey, item.type), item])
+      ),
+    };
+    indexes.set(key, index);
+  }
+  return index;
+};
+
+// Encode a Mapbox Vector Tile, or null when the tile holds no features
+export function getVectorTile(
+  dataset: Dataset,
+  filter: SpeedFilter,
+  z: number,
+  x: number,
+  y: number
+): Uint8Array | null {
+  const matches = matchesSpeedFilter(filter);
+  const features = dataset.periods
+    .filter(
+      (period) =>
+        (filter.year === undefined || period.year === filter.year) &&
+        (filter.quarter === undefined || period.quarter === filter.quarter)
+    )
+    .flatMap((period) => {
+      const { index, centroids, records } = periodIndex(
+        dataset,
+        periodKey(period)
+      );
+      const tile = (z < POLYGON_MIN_ZOOM ? centroids : index).getTile(z, x, y);
+      return (tile?.features ?? []).filter((feature) => {
+        const item = records.get(
+          recordKey(feature.tags?.quadkey, feature.tags?.type)
+        );
+        return item !== undefined && matches(item);
+      });
+    });
+  if (features.length === 0) {
+    return null;
+  }
+  // @types/vt-pbf declares layers as tile indexes, but vt-pbf takes the tiles
+  const layers = { [LAYER_NAME]: { features } } as unknown as Parameters<
+    typeof fromGeojsonVt
+  >[0];
+  return fromGeojsonVt(layers, { version: 2 });
+}
@@ -0,0 +1,35 @@
+import fs from "fs";
+import { logger } from "./logger";
+
+// Watch a data directory (recursively) or file and call onChange once changes
+// have settled, so a file being copied in triggers a single reload
+export function watchDataPath(
+  target: string,
+  debounceMs: number,
+  onChange: (changed: string) => void
+): fs.FSWatcher | null {
+  if (!fs.existsSync(target)) {
+    logger.warn(`Not watching ${target}: path does not exist`);
+    return null;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  let lastChanged = target;
+  const watcher = fs.watch(
+    target,
+    { recursive: fs.statSync(target).isDirectory() },
+    (event, fileName) => {
+      lastChanged = fileName ? String(fileName) : target;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChange(lastChanged);
+      }, debounceMs);
+    }
+  );
+  watcher.on("error", (error) => {
+    logger.error(`Error watching ${target}:`, error);
+  });
+  logger.info(`Watching ${target} for data changes`);
+  return watcher;
+}
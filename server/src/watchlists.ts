@@ -0,0 +1,338 @@
+import crypto from "crypto";
+import fs from "fs";
+import { ValidationError, ValidationIssue } from "./errors";
+import { parseRegionId } from "./regions";
+import { NETWORK_TYPES, NetworkType } from "./types";
+
+export const ALERT_METRICS = ["download", "upload", "latency"] as const;
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+// Median across the region's tiles, or the test-weighted mean
+export const ALERT_STATISTICS = ["median", "mean"] as const;
+export type AlertStatistic = (typeof ALERT_STATISTICS)[number];
+
+// Percent conditions compare the latest quarter with the one before it;
+// below and above compare the latest quarter with the threshold in Mbps or ms
+export const ALERT_CONDITIONS = [
+  "decrease_percent",
+  "increase_percent",
+  "below",
+  "above",
+] as const;
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+export const MAX_WATCHLIST_NAME_LENGTH = 100;
+export const MAX_WATCHLIST_REGIONS = 50;
+export const MAX_WATCHLIST_ALERTS = 20;
+
+export interface AlertEvaluation {
+  period: string;
+  value: number | null;
+  previousValue: number | null;
+  // Percent change from the previous quarter
+  change: number | null;
+  triggered: boolean;
+  evaluatedAt: string;
+}
+
+export interface SpeedAlert {
+  id: string;
+  region: string;
+  type: NetworkType;
+  metric: AlertMetric;
+  statistic: AlertStatistic;
+  condition: AlertCondition;
+  threshold: number;
+  // Configured notification channels; empty keeps the alert dashboard-only
+  channels: string[];
+  lastEvaluation: AlertEvaluation | null;
+  // Alerts fire at most once per quarter
+  lastTriggeredPeriod: string | null;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  regions: string[];
+  alerts: SpeedAlert[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+type AlertInput = Pick<
+  SpeedAlert,
+  | "region"
+  | "type"
+  | "metric"
+  | "statistic"
+  | "condition"
+  | "threshold"
+  | "channels"
+> & { id?: string };
+
+export interface WatchlistInput {
+  name: string;
+  regions: string[];
+  alerts: AlertInput[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseAlert = (
+  alert: unknown,
+  path: string,
+  regions: string[],
+  channels: string[],
+  issues: ValidationIssue[]
+): AlertInput | null => {
+  if (!isObject(alert)) {
+    issues.push({ parameter: path, message: "must be an object" });
+    return null;
+  }
+  const start = issues.length;
+  const oneOf = <T extends string>(name: string, options: readonly T[]) => {
+    if (!options.includes(alert[name] as T)) {
+      issues.push({
+        parameter: `${path}.${name}`,
+        message: `must be one of: ${options.join(", ")}`,
+      });
+    }
+    return alert[name] as T;
+  };
+
+  const region =
+    typeof alert.region === "string" ? parseRegionId(alert.region)?.id : null;
+  if (!region || !regions.includes(region)) {
+    issues.push({
+      parameter: `${path}.region`,
+      message: "must be one of the watchlist's regions",
+    });
+  }
+  const type = oneOf("type", NETWORK_TYPES);
+  const metric = oneOf("metric", ALERT_METRICS);
+  const statistic = oneOf("statistic", ALERT_STATISTICS);
+  const condition = oneOf("condition", ALERT_CONDITIONS);
+  if (
+    typeof alert.threshold !== "number" ||
+    !Number.isFinite(alert.threshold) ||
+    alert.threshold <= 0
+  ) {
+    issues.push({
+      parameter: `${path}.threshold`,
+      message: "must be a positive number",
+    });
+  }
+  const alertChannels = alert.channels ?? [];
+  if (
+    !Array.isArray(alertChannels) ||
+    alertChannels.some((name) => !channels.includes(name))
+  ) {
+    issues.push({
+      parameter: `${path}.channels`,
+      message: `must list configured channels: ${channels.join(", ") || "none configured"}`,
+    });
+  }
+  if (alert.id !== undefined && typeof alert.id !== "string") {
+    issues.push({ parameter: `${path}.id`, message: "must be a string" });
+  }
+  if (issues.length > start) return null;
+  return {
+    id: alert.id as string | undefined,
+    region: region as string,
+    type,
+    metric,
+    statistic,
+    condition,
+    threshold: alert.threshold as number,
+    channels: [...new Set(alertChannels as string[])],
+  };
+};
+
+// Validate a request body; region ids are normalised, e.g. country:nl to country:NL
+export function parseWatchlistInput(
+  body: unknown,
+  channels: string[]
+): WatchlistInput {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(body)) {
+    throw new ValidationError([
+      { parameter: "body", message: "must be a JSON object" },
+    ]);
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (name === "" || name.length > MAX_WATCHLIST_NAME_LENGTH) {
+    issues.push({
+      parameter: "name",
+      message: `must be between 1 and ${MAX_WATCHLIST_NAME_LENGTH} characters`,
+    });
+  }
+
+  const regions: string[] = [];
+  if (
+    !Array.isArray(body.regions) ||
+    body.regions.length > MAX_WATCHLIST_REGIONS
+  ) {
+    issues.push({
+      parameter: "regions",
+      message: `must be a list of at most ${MAX_WATCHLIST_REGIONS} region ids`,
+    });
+  } else {
+    body.regions.forEach((id, index) => {
+      const ref = typeof id === "string" ? parseRegionId(id) : null;
+      if (!ref) {
+        issues.push({
+          parameter: `regions[${index}]`,
+          message: "must be a region id such as country:NL",
+        });
+      } else if (!regions.includes(ref.id)) {
+        regions.push(ref.id);
+      }
+    });
+  }
+
+  const alerts: AlertInput[] = [];
+  const rawAlerts = body.alerts ?? [];
+  if (!Array.isArray(rawAlerts) || rawAlerts.length > MAX_WATCHLIST_ALERTS) {
+    issues.push({
+      parameter: "alerts",
+      message: `must be a list of at most ${MAX_WATCHLIST_ALERTS} alerts`,
+    });
+  } else {
+    rawAlerts.forEach((alert, index) => {
+      const parsed = parseAlert(
+        alert,
+        `alerts[${index}]`,
+        regions,
+        channels,
+        issues
+      );
+      if (parsed) alerts.push(parsed);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return { name, regions, alerts };
+}
+
+export interface WatchlistStore {
+  get(id: string): Watchlist | undefined;
+  all(): Watchlist[];
+  // Undefined when the store already holds the maximum number of watchlists
+  create(input: WatchlistInput): Promise<Watchlist | undefined>;
+  // Alerts keep their evaluation state when their id is sent back unchanged
+  update(id: string, input: WatchlistInput): Promise<Watchlist | undefined>;
+  remove(id: string): Promise<boolean>;
+  // Persist changes made to watchlists in place, e.g. alert evaluations
+  save(): Promise<void>;
+}
+
+// Watchlists kept in memory and written to a JSON file after every change.
+// Ids are random and unguessable; whoever has one can edit the watchlist.
+export function createWatchlistStore(
+  file: string,
+  maxWatchlists: number
+): WatchlistStore {
+  const watchlists = new Map<string, Watchlist>(
+    fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, "utf8")) as Watchlist[]).map(
+          (watchlist) => [watchlist.id, watchlist]
+        )
+      : []
+  );
+
+  // Writes run one after another, each replacing the file atomically
+  let writing: Promise<void> = Promise.resolve();
+  const save = () => {
+    const contents = JSON.stringify([...watchlists.values()], null, 2);
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.writeFile(`${file}.tmp`, contents);
+        await fs.promises.rename(`${file}.tmp`, file);
+      });
+    return writing;
+  };
+
+  const toAlerts = (inputs: AlertInput[], existing: SpeedAlert[] = []) =>
+    inputs.map((input): SpeedAlert => {
+      const previous = existing.find((alert) => alert.id === input.id);
+      const unchanged =
+        previous &&
+        previous.region === input.region &&
+        previous.type === input.type &&
+        previous.metric === input.metric &&
+        previous.statistic === input.statistic &&
+        previous.condition === input.condition &&
+        previous.threshold === input.threshold;
+      return {
+        ...input,
+        id: previous?.id ?? crypto.randomUUID(),
+        lastEvaluation: unchanged ? previous.lastEvaluation : null,
+        lastTriggeredPeriod: unchanged ? previous.lastTriggeredPeriod : null,
+      };
+    });
+
+  return {
+    get: (id) => watchlists.get(id),
+    all: () => [...watchlists.values()],
+    async create(input) {
+      if (watchlists.size >= maxWatchlists) return undefined;
+      const now = new Date().toISOString();
+      const watchlist: Watchlist = {
+        id: crypto.randomUUID(),
+        name: input.name,
+        regions: input.regions,
+        alerts: toAlerts(input.alerts),
+        createdAt: now,
+        updatedAt: now,
+      };
+      watchlists.set(watchlist.id, watchlist);
+      try {
+        await save();
+      } catch (error) {
+        // Keep memory in line with the file the caller was told failed
+        watchlists.delete(watchlist.id);
+        throw error;
+      }
+      return watchlist;
+    },
+    async update(id, input) {
+      const existing = watchlists.get(id);
+      if (!existing) return undefined;
+      const watchlist: Watchlist = {
+        ...existing,
+        name: input.name,
+        regions: input.regions,
+        alerts: toAlerts(input.alerts, existing.alerts),
+        updatedAt: new Date().toISOString(),
+      };
+      watchlists.set(id, watchlist);
+      try {
+        await save();
+      } catch (error) {
+        watchlists.set(id, existing);
+        throw error;
+      }
+      return watchlist;
+    },
+    async remove(id) {
+      const existing = watchlists.get(id);
+      if (!existing) return false;
+      watchlists.delete(id);
+      try {
+        await save();
+      } catch (error) {
+        watchlists.set(id, existing);
+        throw error;
+      }
+      return true;
+    },
+    save,
+  };
+}